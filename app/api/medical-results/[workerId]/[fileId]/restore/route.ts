@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { isValidWorkerKey } from "@/lib/document-slots";
+import { restoreResult } from "@/lib/result-storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ workerId: string; fileId: string }> };
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { workerId, fileId } = await params;
+  const restored = isValidWorkerKey(workerId)
+    ? await restoreResult(workerId, fileId)
+    : null;
+
+  if (!restored) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(restored);
+}
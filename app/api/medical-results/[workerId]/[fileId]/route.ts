@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { isValidWorkerKey } from "@/lib/document-slots";
+import { readResultFile } from "@/lib/result-storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ workerId: string; fileId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { workerId, fileId } = await params;
+  const stored = isValidWorkerKey(workerId)
+    ? await readResultFile(workerId, fileId)
+    : null;
+
+  if (!stored) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  return new NextResponse(stored.content, {
+    headers: {
+      "Content-Type": stored.file.type || "application/octet-stream",
+      "Content-Length": String(stored.file.size),
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(
+        stored.file.name,
+      )}`,
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+
+import { uploadConfig } from "@/config/uploads";
+import { isValidWorkerKey } from "@/lib/document-slots";
+import { FileRejectionCode, validateFile } from "@/lib/file-validation";
+import {
+  clearCurrentResult,
+  getCurrentResult,
+  saveResult,
+} from "@/lib/result-storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ workerId: string }> };
+
+const rejectionStatus: Record<FileRejectionCode, number> = {
+  empty: 400,
+  too_large: 413,
+  unsupported_type: 415,
+  type_mismatch: 415,
+  corrupt: 422,
+  password_protected: 422,
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { workerId } = await params;
+
+  if (!isValidWorkerKey(workerId)) {
+    return NextResponse.json({ error: "Invalid worker id" }, { status: 400 });
+  }
+
+  const result = await getCurrentResult(workerId);
+
+  if (!result) {
+    return NextResponse.json({ error: "No result uploaded" }, { status: 404 });
+  }
+
+  return NextResponse.json(result);
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { workerId } = await params;
+
+  if (!isValidWorkerKey(workerId)) {
+    return NextResponse.json({ error: "Invalid worker id" }, { status: 400 });
+  }
+
+  let formData: FormData;
+
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a multipart/form-data body" },
+      { status: 400 },
+    );
+  }
+
+  const file = formData.get("file");
+  const uploadedBy = formData.get("uploadedBy");
+  const statusAtUpload = formData.get("status");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { error: 'Missing "file" field' },
+      { status: 400 },
+    );
+  }
+
+  const validation = await validateFile(file, {
+    allowedFileTypes: uploadConfig.storableFileTypes,
+    maxFileSizeMB: uploadConfig.maxFileSizeMB,
+  });
+
+  if (!validation.ok) {
+    const { code, message } = validation.rejection;
+
+    return NextResponse.json(
+      { error: message, code },
+      { status: rejectionStatus[code] },
+    );
+  }
+
+  const stored =
+    validation.type === file.type
+      ? file
+      : new File([file], file.name, { type: validation.type });
+
+  const saved = await saveResult(workerId, stored, {
+    uploadedBy: typeof uploadedBy === "string" ? uploadedBy : undefined,
+    statusAtUpload:
+      typeof statusAtUpload === "string" ? statusAtUpload : undefined,
+  });
+
+  return NextResponse.json(saved, { status: 201 });
+}
+
+/** Remove the current file; it stays in the version history. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { workerId } = await params;
+
+  if (!isValidWorkerKey(workerId)) {
+    return NextResponse.json({ error: "Invalid worker id" }, { status: 400 });
+  }
+
+  await clearCurrentResult(workerId);
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { isValidWorkerKey } from "@/lib/document-slots";
+import { getResultHistory } from "@/lib/result-storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ workerId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { workerId } = await params;
+
+  if (!isValidWorkerKey(workerId)) {
+    return NextResponse.json({ error: "Invalid worker id" }, { status: 400 });
+  }
+
+  return NextResponse.json(await getResultHistory(workerId));
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+
+import { isRecord, parseWorkerRecord, WorkerIssue } from "@/lib/worker";
+import { getWorkerRepository } from "@/lib/worker-repository";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** What PATCH may change besides `worker`; anything else in the body is ignored. */
+const EDITABLE_FIELDS = ["rejectionNote", "files", "documentSlots"] as const;
+
+const notFound = (id: string) =>
+  NextResponse.json({ error: `No worker ${id}` }, { status: 404 });
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const record = await getWorkerRepository().get(id);
+
+  return record ? NextResponse.json(record) : notFound(id);
+}
+
+/**
+ * Merge changes into a record: `worker` fields, `rejectionNote`, `files` and
+ * `documentSlots`. The status and its history only change through `/status`.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a JSON body" },
+      { status: 400 },
+    );
+  }
+
+  if (!isRecord(body)) {
+    return NextResponse.json(
+      { error: "Expected a JSON object" },
+      { status: 400 },
+    );
+  }
+  if ("status" in body || "statusHistory" in body) {
+    return NextResponse.json(
+      { error: `Change the status with POST /api/workers/${id}/status` },
+      { status: 400 },
+    );
+  }
+
+  if (body.worker !== undefined && !isRecord(body.worker)) {
+    return NextResponse.json(
+      { error: "`worker` must be an object" },
+      { status: 400 },
+    );
+  }
+
+  const changes = body.worker ?? {};
+
+  if ("id" in changes && changes.id !== id) {
+    return NextResponse.json(
+      { error: "A worker's id cannot change" },
+      { status: 400 },
+    );
+  }
+
+  let issues: WorkerIssue[] = [];
+  // Merge into the stored record inside the write queue, so a status move or
+  // file upload committed meanwhile is kept.
+  const updated = await getWorkerRepository().update(id, (current) => {
+    const parsed = parseWorkerRecord({
+      ...current,
+      ...Object.fromEntries(
+        EDITABLE_FIELDS.filter((field) => field in body).map((field) => [
+          field,
+          body[field],
+        ]),
+      ),
+      worker: { ...current.worker, ...changes },
+    });
+
+    if (parsed.ok) return parsed.record;
+    issues = parsed.issues;
+
+    return current;
+  });
+
+  if (!updated) return notFound(id);
+  if (issues.length) {
+    return NextResponse.json(
+      { error: "Invalid worker record", issues },
+      { status: 422 },
+    );
+  }
+
+  return NextResponse.json(updated);
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await getWorkerRepository().delete(id))) return notFound(id);
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+
+import {
+  canTransition,
+  defaultLifecycle,
+  getStatusDefinition,
+  hasStatus,
+} from "@/lib/status-lifecycle";
+import { getWorkerRepository } from "@/lib/worker-repository";
+import { StatusChange } from "@/types";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json({ error: `No worker ${id}` }, { status: 404 });
+
+/** The current status and the states it may move to. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const record = await getWorkerRepository().get(id);
+
+  if (!record) return notFound(id);
+
+  return NextResponse.json({
+    status: record.status,
+    transitions: getStatusDefinition(defaultLifecycle, record.status)
+      .transitions,
+  });
+}
+
+/**
+ * Move a worker to `status` if the lifecycle allows it and add the move to the
+ * timeline, with `by`, `note` and `confirmedTests` when given. A `note` is
+ * required for `replace` and stored as the rejection note; accepting clears it.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: {
+    status?: unknown;
+    note?: unknown;
+    by?: unknown;
+    confirmedTests?: unknown;
+  };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a JSON body" },
+      { status: 400 },
+    );
+  }
+
+  const { status, note, by, confirmedTests } = body ?? {};
+
+  if (!hasStatus(defaultLifecycle, status)) {
+    return NextResponse.json(
+      { error: `Unknown status ${JSON.stringify(status)}` },
+      { status: 400 },
+    );
+  }
+  if (note !== undefined && note !== null && typeof note !== "string") {
+    return NextResponse.json(
+      { error: "The note must be a string" },
+      { status: 400 },
+    );
+  }
+  if (by !== undefined && typeof by !== "string") {
+    return NextResponse.json(
+      { error: "`by` must be a string" },
+      { status: 400 },
+    );
+  }
+  if (
+    confirmedTests !== undefined &&
+    !(
+      Array.isArray(confirmedTests) &&
+      confirmedTests.every((test) => typeof test === "string")
+    )
+  ) {
+    return NextResponse.json(
+      { error: "`confirmedTests` must be a list of test ids" },
+      { status: 400 },
+    );
+  }
+  if (status === "replace" && !note?.trim()) {
+    return NextResponse.json(
+      { error: "A note is required to request a replacement" },
+      { status: 400 },
+    );
+  }
+
+  const change: StatusChange = {
+    status,
+    at: new Date().toISOString(),
+    ...(by && { by }),
+    ...(note?.trim() && { note: note.trim() }),
+    ...(confirmedTests?.length && { confirmedTests }),
+  };
+  let refusedFrom: string | null = null;
+  // Check the move against the stored status inside the write queue, so two
+  // concurrent moves cannot both pass against the same old status.
+  const updated = await getWorkerRepository().update(id, (record) => {
+    if (!canTransition(defaultLifecycle, record.status, status)) {
+      refusedFrom = record.status;
+
+      return record;
+    }
+
+    return {
+      ...record,
+      status,
+      statusHistory: (record.statusHistory ?? []).concat(change),
+      rejectionNote:
+        status === "replace"
+          ? note!.trim()
+          : status === "accepted"
+            ? null
+            : record.rejectionNote,
+    };
+  });
+
+  if (!updated) return notFound(id);
+  if (refusedFrom !== null) {
+    return NextResponse.json(
+      { error: `Cannot move from ${refusedFrom} to ${status}` },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json(updated);
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFileName,
+  exportTable,
+  isExportFormat,
+  toCsv,
+  toXlsx,
+} from "@/lib/worker-export";
+import { toPdf } from "@/lib/worker-export-pdf";
+import { applyWorkerFilters, filtersFromParams } from "@/lib/worker-filters";
+import { getWorkerRepository } from "@/lib/worker-repository";
+
+export const runtime = "nodejs";
+
+/**
+ * Every record matching the dashboard's filter params as a `csv`, `xlsx` or
+ * `pdf` download, chosen by `format` (CSV by default). The PDF is a summary;
+ * the `/reports/workers` page shows the same in the user's language.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "csv";
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Expected format to be one of ${EXPORT_FORMATS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const records = applyWorkerFilters(
+    await getWorkerRepository().all(),
+    filtersFromParams(searchParams),
+  );
+
+  const table = exportTable(records);
+  const body =
+    format === "csv"
+      ? toCsv(table)
+      : format === "xlsx"
+        ? await toXlsx(table)
+        : await toPdf(table);
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${exportFileName(format)}"`,
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { isValidWorkerId } from "@/lib/document-slots";
+import { parseWorkerRecord } from "@/lib/worker";
+import { filtersFromParams } from "@/lib/worker-filters";
+import {
+  DEFAULT_PAGE_SIZE,
+  getWorkerRepository,
+  listWorkers,
+} from "@/lib/worker-repository";
+
+export const runtime = "nodejs";
+
+/**
+ * Paged worker records. Takes the dashboard's filter params (`q`, `status`,
+ * `role`, `nationality`, `destination`, `sort`) plus `page` and `pageSize`.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const page = await listWorkers(getWorkerRepository(), {
+    filters: filtersFromParams(searchParams),
+    page: Number(searchParams.get("page")) || 1,
+    pageSize: Number(searchParams.get("pageSize")) || DEFAULT_PAGE_SIZE,
+  });
+
+  return NextResponse.json(page);
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a JSON body" },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseWorkerRecord(body);
+
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: "Invalid worker record", issues: parsed.issues },
+      { status: 422 },
+    );
+  }
+  if (!isValidWorkerId(parsed.record.worker.id)) {
+    return NextResponse.json({ error: "Invalid worker id" }, { status: 400 });
+  }
+
+  const created = await getWorkerRepository().create({
+    ...parsed.record,
+    statusHistory: parsed.record.statusHistory ?? [
+      { status: parsed.record.status, at: new Date().toISOString() },
+    ],
+  });
+
+  if (!created) {
+    return NextResponse.json(
+      { error: `Worker ${parsed.record.worker.id} already exists` },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json(created, { status: 201 });
+}
@@ -0,0 +1,34 @@
+import { LocaleProvider } from "@/components/locale-provider";
+import { WorkerReport } from "@/components/worker-report";
+import { applyWorkerFilters, filtersFromParams } from "@/lib/worker-filters";
+import { getWorkerRepository } from "@/lib/worker-repository";
+
+// Records change through the API, so never serve a build-time snapshot.
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+/** The printable summary of the workers matching the dashboard's filter params. */
+export default async function WorkerReportPage({ searchParams }: PageProps) {
+  const query = await searchParams;
+  const params = new URLSearchParams();
+
+  Object.keys(query).forEach((key) => {
+    const value = query[key];
+
+    if (typeof value === "string") params.set(key, value);
+  });
+
+  const records = applyWorkerFilters(
+    await getWorkerRepository().all(),
+    filtersFromParams(params),
+  );
+
+  return (
+    <LocaleProvider locale={params.get("lang") ?? undefined}>
+      <WorkerReport generatedAt={new Date().toISOString()} records={records} />
+    </LocaleProvider>
+  );
+}
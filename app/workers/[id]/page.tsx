@@ -0,0 +1,56 @@
+import { notFound } from "next/navigation";
+
+import { requirementsCatalog } from "@/config/requirements";
+import { LocaleProvider } from "@/components/locale-provider";
+import { DossierDocument, WorkerDossier } from "@/components/worker-dossier";
+import {
+  DEFAULT_SLOT_ID,
+  isValidWorkerKey,
+  slotStorageKey,
+} from "@/lib/document-slots";
+import { resolveRequirements } from "@/lib/requirements";
+import { getResultHistory } from "@/lib/result-storage";
+import { getWorkerRepository } from "@/lib/worker-repository";
+
+// Records and uploads change at any time, so always read them fresh.
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ lang?: string }>;
+};
+
+export default async function WorkerPage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const { lang } = await searchParams;
+  const record = await getWorkerRepository().get(id);
+
+  if (!record) notFound();
+
+  const slots: Omit<DossierDocument, "history">[] = record.documentSlots
+    ? record.documentSlots.map(({ id: slotId, label, required }) => ({
+        slotId,
+        label,
+        required: required ?? false,
+      }))
+    : [{ slotId: DEFAULT_SLOT_ID }];
+  const documents: DossierDocument[] = await Promise.all(
+    // Stored slot ids name directories, so never follow one that looks like a path.
+    slots
+      .filter((slot) => isValidWorkerKey(slotStorageKey(id, slot.slotId)))
+      .map(async (slot) => ({
+        ...slot,
+        history: await getResultHistory(slotStorageKey(id, slot.slotId)),
+      })),
+  );
+
+  return (
+    <LocaleProvider locale={lang}>
+      <WorkerDossier
+        documents={documents}
+        record={record}
+        requirements={resolveRequirements(requirementsCatalog, record.worker)}
+      />
+    </LocaleProvider>
+  );
+}
@@ -1,514 +1,833 @@
 "use client";
 
-import { Avatar, Card, CardBody, Button } from "@heroui/react";
+import { Avatar, Card, CardBody, Button, Checkbox } from "@heroui/react";
+import clsx from "clsx";
+import NextLink from "next/link";
 import {
-  ArrowUp,
-  Check,
+  ArrowRightLeft,
+  CalendarClock,
   CircleArrowDown,
-  CornerDownRight,
-  CornerUpLeft,
-  UserRound,
+  TriangleAlert,
 } from "lucide-react";
-import React, { useCallback, useState, useEffect } from "react";
-
-type Worker = {
-  name: string;
-  role: string;
-  photo: string;
-  location: string;
-  jobOffer: string | number;
-  age: string | number;
-};
-
-type FileData = {
-  name: string;
-  size: number;
-  type: string;
-  uploadedAt?: string;
-};
-
-type Requirement = {
-  title: string;
-  downloadUrl: string;
-};
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
-type Status = "accepted" | "pending" | "replace";
+import {
+  DocumentSlotHandle,
+  DocumentSlotUpload,
+} from "@/components/document-slot";
+import { useLocale } from "@/components/locale-provider";
+import {
+  expiryIndicator,
+  MedicalCardClassNames,
+  MedicalCardVariantProps,
+  medicalCard,
+  statusBadge,
+} from "@/components/primitives";
+import { ReplacementPanel } from "@/components/replacement-panel";
+import { RequirementChecklist } from "@/components/requirement-checklist";
+import { ReviewActions } from "@/components/review-actions";
+import { requirementsCatalog as defaultRequirementsCatalog } from "@/config/requirements";
+import { uploadConfig } from "@/config/uploads";
+import {
+  CardErrorHandler,
+  reportCardError,
+  UploadValidationError,
+} from "@/lib/card-errors";
+import {
+  areRequiredSlotsFilled,
+  DEFAULT_SLOT_ID,
+  resolveSlots,
+  ResolvedDocumentSlot,
+  routeFilesToSlots,
+  slotStorageKey,
+} from "@/lib/document-slots";
+import {
+  canTransition,
+  defaultLifecycle,
+  getStatusDefinition,
+  StatusLifecycle,
+} from "@/lib/status-lifecycle";
+import {
+  requirementTests,
+  RequirementsCatalog,
+  resolveRequirements,
+  unconfirmedMandatoryTests,
+} from "@/lib/requirements";
+import {
+  ResultValidity,
+  resultValidity,
+  validityDaysFor,
+} from "@/lib/result-validity";
+import {
+  countryFlag,
+  linkReplacement,
+  replacementCandidates as matchingCandidates,
+} from "@/lib/worker";
+import { UploadValidator } from "@/lib/upload-validators";
+import {
+  DocumentSlot,
+  FileData,
+  RequirementDocument,
+  ReviewDecision,
+  SlotFiles,
+  Status,
+  Worker,
+} from "@/types";
 
-interface MedicalCardProps {
+interface MedicalCardProps extends MedicalCardVariantProps {
   worker: Worker;
+  /**
+   * Key this worker's files were stored under in the browser before workers
+   * had ids; they move to the id-based keys. Pass it only when no other
+   * worker shares it, e.g. from `unambiguousLegacyKeys`.
+   */
+  legacyWorkerKey?: string;
   status?: Status;
+  /**
+   * Current file per slot id. Makes the card controlled: it neither loads
+   * files from storage nor keeps its own copy, so update it from `onChange`.
+   */
+  value?: SlotFiles;
+  /** Initial files of an uncontrolled card; slots left out load from storage. */
+  defaultValue?: SlotFiles;
+  /** Fires after an upload, restore, removal or load changes a slot's file. */
+  onChange?: (value: SlotFiles, slotId: string) => void;
+  /** @deprecated Use `defaultValue` keyed by the default `"result"` slot. */
   resultFile?: FileData | null;
-  requirements?: Requirement;
+  /**
+   * Overrides the documents resolved from `requirementsCatalog`. A single
+   * document is still accepted for older callers.
+   */
+  requirements?: RequirementDocument | RequirementDocument[];
+  /** Looked up by the worker's destination country, role and employer. */
+  requirementsCatalog?: RequirementsCatalog;
   rejectionNote?: string | null;
-  onFileUpload?: (file: FileData) => void;
+  /**
+   * Workers who could take over while the status is `replace`; only those
+   * with the same role and destination are offered.
+   */
+  replacementCandidates?: Worker[];
+  /** Receives both workers already linked through `replacedBy` and `replaces`. */
+  onReplaceWorker?: (oldWorker: Worker, newWorker: Worker) => void;
+  /** Called for new uploads and when an earlier version is restored. */
+  onFileUpload?: (file: FileData, slot: DocumentSlot) => void;
+  /** Days before expiry at which the card warns and `onExpiringSoon` fires. */
+  expiryWarningDays?: number;
+  /** Fires once per result when it comes within `expiryWarningDays` of expiry. */
+  onExpiringSoon?: (validity: ResultValidity) => void;
+  /**
+   * Documents the worker must provide; defaults to a single result slot. With
+   * a `resultsEndpoint`, slot limits are capped at what the server stores.
+   */
+  documentSlots?: DocumentSlot[];
+  /**
+   * Checks run in order after the built-in content validation, e.g.
+   * `maxPdfPages(4)`. `onFileUpload` only fires once all of them pass.
+   */
+  validators?: UploadValidator[];
+  /** Every reason a file was refused; the same errors are listed inline. */
+  onValidationError?: (
+    errors: UploadValidationError[],
+    slot: DocumentSlot,
+  ) => void;
+  /**
+   * Upload, restore and preview failures. Return `true` to suppress the
+   * built-in toast, e.g. after showing a translated message.
+   */
+  onError?: CardErrorHandler;
+  /** Fires when the worker goes from missing required documents to complete, or back. */
+  onCompletenessChange?: (isComplete: boolean) => void;
+  /** Recorded as the uploader in the version history. */
+  uploaderName?: string;
+  /** Only called for moves the lifecycle allows. */
   onStatusChange?: (status: Status) => void;
+  /** Allowed states and transitions; see `extendLifecycle` for custom states. */
+  lifecycle?: StatusLifecycle;
+  /** Shows Accept / Request Replacement actions for the signed-in reviewer. */
+  reviewMode?: boolean;
+  reviewerName?: string;
+  onReviewDecision?: (decision: ReviewDecision) => void;
+  /** Base URL of the medical results API; `null` keeps files in the browser only. */
+  resultsEndpoint?: string | null;
 
   allowedFileTypes?: string[];
   maxFileSizeMB?: number;
   uploadLabel?: string;
   requirementLabel?: string;
+  className?: string;
+  /** Links the avatar and name, e.g. to the worker's dossier. */
+  profileHref?: string;
+  /**
+   * Shows a selection checkbox, checked by `isSelected`. `range` is true for a
+   * shift-click, to select every card up to the previous one.
+   */
+  onSelect?: (options: { range: boolean }) => void;
+  /** Extra classes per part of the card, e.g. `{ previewTile: "shadow-none" }`. */
+  classNames?: MedicalCardClassNames;
 }
 
-const statusMap: Record<
-  Status,
-  {
-    label: string;
-    bgColor: string;
-    textColor: string;
-    borderColor: string;
-  }
-> = {
-  accepted: {
-    label: "Accepted",
-    bgColor: "bg-green-100",
-    textColor: "text-green-500",
-    borderColor: "border-green-300",
-  },
-  pending: {
-    label: "Pending",
-    bgColor: "bg-[#FEF9C2]",
-    textColor: "text-[#938700]",
-    borderColor: "border-[#9E9100]",
-  },
-  replace: {
-    label: "Replace Worker",
-    bgColor: "bg-red-100",
-    textColor: "text-red-500",
-    borderColor: "border-red-300",
-  },
-};
+const noValidators: UploadValidator[] = [];
 
 const MedicalCard: React.FC<MedicalCardProps> = ({
   worker,
+  legacyWorkerKey,
   status = "pending",
-  resultFile = null,
+  value,
+  defaultValue,
+  onChange,
+  resultFile,
   requirements,
+  requirementsCatalog = defaultRequirementsCatalog,
   rejectionNote,
+  replacementCandidates,
+  onReplaceWorker,
+  expiryWarningDays = 30,
+  onExpiringSoon,
   onFileUpload = () => {},
+  documentSlots,
+  validators = noValidators,
+  onValidationError,
+  onError,
+  onCompletenessChange = () => {},
+  uploaderName,
   onStatusChange = () => {},
-
-  allowedFileTypes = [
-    "application/pdf",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "application/msword",
-  ],
-  maxFileSizeMB = 10,
-  uploadLabel = "Medical Result",
-  requirementLabel = "Medical Requirements",
+  lifecycle = defaultLifecycle,
+  reviewMode = false,
+  reviewerName = "Reviewer",
+  onReviewDecision = () => {},
+  resultsEndpoint = "/api/medical-results",
+
+  allowedFileTypes = uploadConfig.allowedFileTypes,
+  maxFileSizeMB = uploadConfig.maxFileSizeMB,
+  uploadLabel,
+  requirementLabel,
+  variant,
+  size,
+  radius,
+  className,
+  classNames,
+  profileHref,
+  isSelected,
+  onSelect,
 }) => {
-  const [dragActive, setDragActive] = useState(false);
-  const [uploadedFile, setUploadedFile] = useState<FileData | null>(resultFile);
-  const [fileObject, setFileObject] = useState<File | null>(null);
-  const [isClient, setIsClient] = useState(false);
+  const {
+    t,
+    dir,
+    formatStatus,
+    formatCountry,
+    formatSalary,
+    formatAge,
+    formatDateTime,
+  } = useLocale();
+  const isControlled = value !== undefined;
+  const initialFiles = useMemo(
+    () =>
+      defaultValue ??
+      (resultFile !== undefined ? { [DEFAULT_SLOT_ID]: resultFile } : {}),
+    [],
+  );
+  const [uncontrolledFiles, setUncontrolledFiles] =
+    useState<SlotFiles>(initialFiles);
+  const files = isControlled ? value : uncontrolledFiles;
+  // Several slots may report in the same tick, so build on the latest files.
+  const filesRef = useRef(files);
+
+  filesRef.current = files;
+  const slotRefs = useRef<Record<string, DocumentSlotHandle | null>>({});
+  const wasCompleteRef = useRef<boolean | null>(null);
+
+  const workerKey = worker.id;
+
+  const slots = useMemo(
+    () =>
+      resolveSlots(
+        documentSlots ?? [
+          {
+            id: DEFAULT_SLOT_ID,
+            label: uploadLabel ?? t("card.uploadLabel"),
+            required: true,
+          },
+        ],
+        { allowedFileTypes, maxFileSizeMB },
+        resultsEndpoint
+          ? {
+              allowedFileTypes: uploadConfig.storableFileTypes,
+              maxFileSizeMB: uploadConfig.maxFileSizeMB,
+            }
+          : undefined,
+      ),
+    [
+      documentSlots,
+      uploadLabel,
+      allowedFileTypes,
+      maxFileSizeMB,
+      resultsEndpoint,
+      t,
+    ],
+  );
 
-  useEffect(() => {
-    setIsClient(true);
-  }, []);
+  const filledSlotIds = slots
+    .filter((slot) => files[slot.id])
+    .map((slot) => slot.id);
+  const requiredSlots = slots.filter((slot) => slot.required);
+  const isComplete = areRequiredSlotsFilled(slots, filledSlotIds);
 
-  /** Load saved file info from localStorage */
   useEffect(() => {
-    if (!isClient || typeof window === "undefined") return;
-    const storageKey = `medical_result_${worker.name.replace(/\s+/g, "_")}`;
-
-    try {
-      const saved = localStorage.getItem(storageKey);
-      if (saved) {
-        const parsedFile = JSON.parse(saved);
-        if (
-          parsedFile &&
-          parsedFile.name &&
-          parsedFile.size &&
-          parsedFile.type
-        ) {
-          setUploadedFile(parsedFile);
-        }
-      } else if (resultFile) {
-        setUploadedFile(resultFile);
-      }
-    } catch {
-      localStorage.removeItem(storageKey);
+    // Skip the first render: only report actual changes.
+    if (
+      wasCompleteRef.current !== null &&
+      wasCompleteRef.current !== isComplete
+    ) {
+      onCompletenessChange(isComplete);
     }
-  }, [worker.name, resultFile, isClient]);
-
-  /** File upload handler */
-  const handleFileUpload = useCallback(
-    (file: File) => {
-      if (file.size > maxFileSizeMB * 1024 * 1024) {
-        alert(`File size must be less than ${maxFileSizeMB}MB`);
-        return;
-      }
-      if (!allowedFileTypes.includes(file.type)) {
-        const allowedExtensions = allowedFileTypes
-          .map((type) => {
-            switch (type) {
-              case "application/pdf":
-                return "PDF";
-              case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-                return "DOCX";
-              case "application/msword":
-                return "DOC";
-              default:
-                return type;
-            }
-          })
-          .join(", ");
-        alert(`Allowed file types: ${allowedExtensions}`);
-        return;
+    wasCompleteRef.current = isComplete;
+  }, [isComplete]);
+
+  const statusConfig = getStatusDefinition(lifecycle, status);
+  const statusLabel = formatStatus(status, statusConfig.label);
+  const uploadBlockedReason = canTransition(lifecycle, status, "pending")
+    ? null
+    : t("card.uploadBlocked", { status: statusLabel });
+
+  /** Forward a status change only when the lifecycle allows it */
+  const changeStatus = useCallback(
+    (next: Status) => {
+      if (!canTransition(lifecycle, status, next)) {
+        console.warn(`Illegal status transition: ${status} → ${next}`);
+
+        return false;
       }
+      onStatusChange(next);
 
-      const fileData: FileData = {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        uploadedAt: new Date().toISOString(),
-      };
-
-      setUploadedFile(fileData);
-      setFileObject(file);
-
-      if (typeof window !== "undefined") {
-        try {
-          const storageKey = `medical_result_${worker.name.replace(/\s+/g, "_")}`;
-          localStorage.setItem(storageKey, JSON.stringify(fileData));
-        } catch (error) {
-          console.warn("Failed to save file data:", error);
-        }
-      }
+      return true;
+    },
+    [lifecycle, status, onStatusChange],
+  );
+
+  const handleSlotFileChange = useCallback(
+    (slotId: string, file: FileData | null) => {
+      const current = filesRef.current;
+
+      if ((current[slotId] ?? null) === file) return;
 
-      onFileUpload(fileData);
-      onStatusChange("pending");
+      const next = { ...current, [slotId]: file };
+
+      filesRef.current = next;
+      if (!isControlled) setUncontrolledFiles(next);
+      onChange?.(next, slotId);
     },
-    [maxFileSizeMB, allowedFileTypes, worker.name, onFileUpload, onStatusChange]
+    [isControlled, onChange],
   );
 
-  const handleDrag = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragActive(e.type === "dragenter" || e.type === "dragover");
-  }, []);
+  const handleSlotUploaded = useCallback(
+    (file: FileData, slot: ResolvedDocumentSlot) => {
+      onFileUpload(file, slot);
+      changeStatus("pending");
+    },
+    [onFileUpload, changeStatus],
+  );
 
-  const handleDrop = useCallback(
-    (e: React.DragEvent) => {
-      e.preventDefault();
-      e.stopPropagation();
-      setDragActive(false);
-      const files = e.dataTransfer.files;
-      if (files && files[0]) handleFileUpload(files[0]);
+  /** Send each of several dropped files to the slot it belongs to */
+  const handleFilesDropped = useCallback(
+    (files: File[]) => {
+      const { assignments, unassigned } = routeFilesToSlots(
+        files,
+        slots,
+        filledSlotIds,
+      );
+
+      assignments.forEach(({ file, slot }) => {
+        slotRefs.current[slot.id]?.upload(file);
+      });
+      unassigned.forEach((file) => {
+        reportCardError(
+          {
+            code: "no_matching_slot",
+            message: t("card.noMatchingSlot", { fileName: file.name }),
+            fileName: file.name,
+          },
+          { title: t("errorTitle.no_matching_slot"), onError },
+        );
+      });
     },
-    [handleFileUpload]
+    [slots, filledSlotIds, onError, t],
   );
 
-  const handleFileInputChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) handleFileUpload(file);
+  const handleCardDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      const files = Array.from(e.dataTransfer.files ?? []);
+
+      if (files.length > 0) handleFilesDropped(files);
     },
-    [handleFileUpload]
+    [handleFilesDropped],
   );
 
-  const handleFileInputClick = useCallback(() => {
-    const fileInput = document.getElementById(
-      `file-input-${worker.name.replace(/\s+/g, "_")}`
-    );
-    fileInput?.click();
-  }, [worker.name]);
+  const requirementDocuments = useMemo(
+    () =>
+      requirements
+        ? ([] as RequirementDocument[]).concat(requirements)
+        : resolveRequirements(requirementsCatalog, worker),
+    [
+      requirements,
+      requirementsCatalog,
+      worker.destinationCountry,
+      worker.role,
+      worker.employerId,
+    ],
+  );
 
-  const handleRequirementDownload = useCallback(() => {
-    if (requirements?.downloadUrl) {
-      window.open(requirements.downloadUrl, "_blank", "noopener,noreferrer");
+  useEffect(() => {
+    if (!requirementDocuments) {
+      console.warn(
+        `No medical requirements in the catalog for role "${worker.role}" in ` +
+          `${worker.destinationCountry}` +
+          (worker.employerId ? ` (employer ${worker.employerId})` : ""),
+      );
     }
-  }, [requirements?.downloadUrl]);
-
-  /** File preview */
-  const handleFilePreview = useCallback(() => {
-    if (!uploadedFile) return;
-
-    if (fileObject) {
-      if (fileObject.type === "application/pdf") {
-        const pdfUrl = URL.createObjectURL(fileObject);
-        window.open(pdfUrl, "_blank");
-      } else {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const base64 = e.target?.result;
-          if (base64) {
-            const googleViewerUrl = `https://docs.google.com/gview?url=${encodeURIComponent(
-              base64.toString()
-            )}&embedded=true`;
-            window.open(googleViewerUrl, "_blank");
-          }
-        };
-        reader.readAsDataURL(fileObject);
-      }
-      return;
+  }, [requirementDocuments]);
+
+  const tests = useMemo(
+    () => requirementTests(requirementDocuments ?? []),
+    [requirementDocuments],
+  );
+  const [confirmedTests, setConfirmedTests] = useState<string[]>([]);
+  const remainingTests = unconfirmedMandatoryTests(tests, confirmedTests);
+  // Confirmations refer to the files on screen; start over when they change.
+  const filesSignature = slots
+    .map((slot) => files[slot.id]?.id ?? files[slot.id]?.name ?? "")
+    .join("|");
+
+  useEffect(() => {
+    setConfirmedTests([]);
+  }, [filesSignature]);
+
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60 * 60 * 1000);
+
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const validity = resultValidity(
+    slots.reduce<SlotFiles>(
+      (slotFiles, slot) => ({ ...slotFiles, [slot.id]: files[slot.id] }),
+      {},
+    ),
+    validityDaysFor(requirementDocuments ?? []),
+    expiryWarningDays,
+    now,
+  );
+  const notifiedExpiryRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (
+      validity?.state === "expired" &&
+      status !== "expired" &&
+      canTransition(lifecycle, status, "expired")
+    ) {
+      changeStatus("expired");
     }
+  }, [validity?.state, status]);
 
-    // After reload, only PDFs can be previewed
-    if (uploadedFile.type === "application/pdf") {
-      alert(
-        "Cannot preview DOC/DOCX after reload. PDF preview only works before reload."
-      );
-    } else {
-      alert(
-        "Preview not available for DOC/DOCX after reload due to browser limitations."
-      );
+  useEffect(() => {
+    if (
+      validity?.state === "expiring" &&
+      notifiedExpiryRef.current !== validity.expiresAt
+    ) {
+      notifiedExpiryRef.current = validity.expiresAt;
+      onExpiringSoon?.(validity);
     }
-  }, [uploadedFile, fileObject]);
+  }, [validity?.state, validity?.expiresAt]);
 
-  const statusConfig = statusMap[status];
-  const previewColor =
-    status === "accepted"
-      ? { border: "#16a34a", infoBg: "#16a34a", infoText: "#ffffff" }
-      : status === "pending"
-        ? { border: "#9E9100", infoBg: "#FEF9C2", infoText: "#938700" }
-        : { border: "#ef4444", infoBg: "#ef4444", infoText: "#ffffff" };
+  const candidates = useMemo(
+    () => matchingCandidates(worker, replacementCandidates ?? []),
+    [worker, replacementCandidates],
+  );
+
+  const handleReplaceWorker = useCallback(
+    (replacement: Worker) => {
+      const [oldWorker, newWorker] = linkReplacement(worker, replacement);
+
+      onReplaceWorker?.(oldWorker, newWorker);
+    },
+    [worker, onReplaceWorker],
+  );
 
-  const fileInputId = `file-input-${worker.name.replace(/\s+/g, "_")}`;
+  const handleRequirementDownload = useCallback((url: string) => {
+    window.open(url, "_blank", "noopener,noreferrer");
+  }, []);
+
+  const handleReviewDecision = useCallback(
+    (decision: ReviewDecision) => {
+      if (changeStatus(decision.status)) onReviewDecision(decision);
+    },
+    [onReviewDecision, changeStatus],
+  );
+
+  const styles = useMemo(
+    () => medicalCard({ variant, size, radius, isSelected }),
+    [variant, size, radius, isSelected],
+  );
+  // React Aria reports only the new value, so note the shift key on the way in.
+  const isRangeSelectRef = useRef(false);
+
+  const StatusIcon = statusConfig.icon;
+
+  const identity = (
+    <>
+      <Avatar
+        alt={worker.name}
+        className={styles.avatar({ class: classNames?.avatar })}
+        radius="sm"
+        size="md"
+        src={worker.photo}
+      />
+      <div>
+        <h3 className="font-semibold text-base text-foreground group-hover:underline">
+          {worker.name}
+        </h3>
+        <p className="text-sm text-default-400">
+          {worker.role}
+          <span className="mx-1.5">·</span>
+          <span title={t("card.nationality")}>
+            <span aria-hidden className="me-1">
+              {countryFlag(worker.nationality)}
+            </span>
+            {formatCountry(worker.nationality)}
+          </span>
+        </p>
+      </div>
+    </>
+  );
 
   return (
-    <Card className="w-full max-w-2xl shadow-sm border border-gray-200">
-      <CardBody className="p-6">
+    <Card
+      className={styles.root({ class: clsx(classNames?.root, className) })}
+      dir={dir}
+    >
+      <CardBody className={styles.body({ class: classNames?.body })}>
         {/* Header */}
-        <div className="flex items-center justify-between mb-4">
+        <div className={styles.header({ class: classNames?.header })}>
           <div className="flex items-center gap-3">
-            <Avatar
-              radius="sm"
-              src={worker.photo}
-              alt={worker.name}
-              size="md"
-              className="w-12 h-12"
-            />
-            <div>
-              <h3 className="font-semibold text-base text-gray-900">
-                {worker.name}
-              </h3>
-              <p className="text-sm text-gray-400">{worker.role}</p>
-            </div>
+            {onSelect && (
+              <span
+                onClickCapture={(event) => {
+                  isRangeSelectRef.current = event.shiftKey;
+                }}
+                onKeyDownCapture={(event) => {
+                  isRangeSelectRef.current = event.shiftKey;
+                }}
+              >
+                <Checkbox
+                  aria-label={t("bulk.selectWorker", {
+                    workerName: worker.name,
+                  })}
+                  isSelected={!!isSelected}
+                  onValueChange={() =>
+                    onSelect({ range: isRangeSelectRef.current })
+                  }
+                />
+              </span>
+            )}
+            {profileHref ? (
+              <NextLink
+                className="group flex items-center gap-3 rounded-small outline-none focus-visible:ring-2 focus-visible:ring-focus"
+                href={profileHref}
+              >
+                {identity}
+              </NextLink>
+            ) : (
+              <div className="flex items-center gap-3">{identity}</div>
+            )}
           </div>
           <div
-            className={`px-4 py-2 inline-flex items-center gap-1 rounded-md border text-base font-medium ${statusConfig.bgColor} ${statusConfig.textColor} ${statusConfig.borderColor}`}>
-            <span>{statusConfig.label}</span>
-            {status === "replace" && <CustomReplaceIcon size={16} />}
+            className={statusBadge({
+              color: statusConfig.color,
+              class: styles.statusBadge({ class: classNames?.statusBadge }),
+            })}
+          >
+            <span>{statusLabel}</span>
+            {StatusIcon && <StatusIcon size={16} />}
           </div>
         </div>
 
         {/* Worker Info */}
-        <div
-          className="grid gap-6 mb-4"
-          style={{ gridTemplateColumns: "1fr auto 1fr" }}>
-          <div className="text-left">
-            <p className="text-xs text-blue-950 font-bold mb-1">
-              Current location
+        <div className={styles.infoGrid({ class: classNames?.infoGrid })}>
+          <div className="text-start">
+            <p className="text-xs text-brand-heading font-bold mb-1">
+              {t("card.currentLocation")}
             </p>
-            <p className="text-xs text-gray-400 font-semibold">
-              {worker.location}
+            <p className="text-xs text-default-400 font-semibold">
+              <span aria-hidden className="me-1">
+                {countryFlag(worker.currentCountry)}
+              </span>
+              {formatCountry(worker.currentCountry)}
             </p>
           </div>
           <div className="flex justify-center">
-            <div className="text-left">
-              <p className="text-xs text-blue-950 font-bold mb-1">Job Offer</p>
-              <p className="text-xs text-gray-400 font-semibold">
-                {worker.jobOffer}
+            <div className="text-start">
+              <p className="text-xs text-brand-heading font-bold mb-1">
+                {t("card.jobOffer")}
+              </p>
+              <p className="text-xs text-default-400 font-semibold">
+                {formatSalary(worker.salary)}
               </p>
             </div>
           </div>
           <div className="flex justify-end">
-            <div className="text-left">
-              <p className="text-xs text-blue-950 font-bold mb-1">Age</p>
-              <p className="text-xs text-gray-400 font-semibold">
-                {worker.age}
+            <div className="text-start">
+              <p className="text-xs text-brand-heading font-bold mb-1">
+                {t("card.age")}
+              </p>
+              <p className="text-xs text-default-400 font-semibold">
+                {formatAge(worker.dateOfBirth)}
               </p>
             </div>
           </div>
         </div>
 
         <div className="my-4">
-          <div className="h-px bg-gray-300 w-full"></div>
+          <div className="h-px bg-divider w-full" />
         </div>
 
         {/* File Sections */}
-        <div className="grid grid-cols-2 gap-6">
-          {/* Medical Result */}
-          <div>
-            <h4 className="text-[18px] font-bold text-[#1e3a8a] mb-4 leading-tight">
-              {uploadLabel}
-            </h4>
-            {uploadedFile ? (
-              <div className="relative">
-                <div
-                  className="bg-white rounded-lg border h-[200px] flex flex-col shadow-sm overflow-hidden cursor-pointer"
-                  style={{ borderColor: previewColor.border }}
-                  onClick={handleFilePreview}>
-                  <div className="flex-1 bg-gray-50 relative p-3">
-                    <div className="space-y-2">
-                      <div className="h-0.5 bg-gray-400 rounded w-4/5"></div>
-                      <div className="h-0.5 bg-gray-400 rounded w-3/5"></div>
-                      <div className="h-0.5 bg-gray-400 rounded w-full"></div>
-                      <div className="h-0.5 bg-gray-400 rounded w-2/3"></div>
-                      <div className="h-0.5 bg-gray-400 rounded w-4/5"></div>
-                      <div className="h-0.5 bg-gray-400 rounded w-1/2"></div>
-                    </div>
-                    <div className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full"></div>
-                  </div>
-                  <div
-                    className="p-3 border-t flex items-center justify-between"
-                    style={{
-                      background: previewColor.infoBg,
-                      borderTopColor: previewColor.infoBg,
-                    }}>
-                    <div
-                      className="text-sm font-medium truncate max-w-[120px]"
-                      style={{ color: previewColor.infoText }}
-                      title={uploadedFile.name}>
-                      {uploadedFile.name}
-                    </div>
+        {/* Drops outside a specific slot are routed by file name and type */}
+        <div
+          className="grid grid-cols-2 gap-6"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleCardDrop}
+        >
+          {slots.map((slot) => (
+            <DocumentSlotUpload
+              key={slot.id}
+              ref={(handle) => {
+                slotRefs.current[slot.id] = handle;
+              }}
+              classNames={classNames}
+              hydrate={!isControlled && !(slot.id in initialFiles)}
+              legacyStorageKey={
+                legacyWorkerKey && slotStorageKey(legacyWorkerKey, slot.id)
+              }
+              lifecycle={lifecycle}
+              resultsEndpoint={resultsEndpoint}
+              slot={slot}
+              status={status}
+              storageKey={slotStorageKey(workerKey, slot.id)}
+              styles={styles}
+              uploadBlockedReason={uploadBlockedReason}
+              uploaderName={uploaderName}
+              validators={validators}
+              value={files[slot.id] ?? null}
+              onError={onError}
+              onFileChange={handleSlotFileChange}
+              onFilesDropped={handleFilesDropped}
+              onUploaded={handleSlotUploaded}
+              onValidationError={onValidationError}
+            />
+          ))}
+
+          {/* Medical Requirements */}
+          <div className="relative">
+            <div
+              className={styles.tileHeader({ class: classNames?.tileHeader })}
+            >
+              <h4
+                className={styles.tileTitle({ class: classNames?.tileTitle })}
+              >
+                {requirementLabel ?? t("card.requirementLabel")}
+              </h4>
+            </div>
+            {requirementDocuments ? (
+              <div
+                className={styles.requirementTile({
+                  class: classNames?.requirementTile,
+                })}
+              >
+                <div className="flex-1 bg-default-50 relative p-3">
+                  <div className="space-y-2">
+                    <div className="h-0.5 bg-default-300 rounded w-4/5" />
+                    <div className="h-0.5 bg-default-300 rounded w-3/5" />
+                    <div className="h-0.5 bg-default-300 rounded w-full" />
+                    <div className="h-0.5 bg-default-300 rounded w-2/3" />
+                    <div className="h-0.5 bg-default-300 rounded w-4/5" />
+                    <div className="h-0.5 bg-default-300 rounded w-1/2" />
                   </div>
+                  <div className="absolute top-2 end-2 w-2 h-2 bg-danger rounded-full" />
                 </div>
-                <div className="flex items-center text-xs text-gray-500 mt-2">
-                  <Check
-                    size={12}
-                    className="text-green-500 mr-1.5 flex-shrink-0"
-                  />
-                  <span>PDF, DOCX — up to {maxFileSizeMB}MB</span>
-                </div>
+                <ul className="border-t border-brand bg-brand divide-y divide-brand-foreground/20 overflow-y-auto">
+                  {requirementDocuments.map((document, index) => (
+                    <li
+                      key={`${document.downloadUrl}-${index}`}
+                      className="p-3 flex items-center justify-between gap-2"
+                    >
+                      <div
+                        className="text-brand-foreground text-[11px] font-medium truncate"
+                        title={document.title}
+                      >
+                        {document.title}
+                      </div>
+                      <Button
+                        aria-label={t("card.downloadDocument", {
+                          title: document.title,
+                        })}
+                        className="shrink-0 flex items-center gap-1 bg-content1 text-brand rounded-md px-3 py-1 text-[12px] font-medium shadow-sm hover:bg-brand/10 transition-colors"
+                        type="button"
+                        onClick={() =>
+                          handleRequirementDownload(document.downloadUrl)
+                        }
+                      >
+                        <CircleArrowDown size={16} />
+                        <span>{t("card.download")}</span>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
               </div>
             ) : (
               <div
-                className={`border-2 border-dashed rounded-lg h-[200px] text-center cursor-pointer mb-2 transition-colors flex flex-col items-center justify-center ${
-                  dragActive
-                    ? "border-blue-400 bg-blue-50"
-                    : "border-gray-300 hover:border-gray-400 bg-white"
-                }`}
-                onDragEnter={handleDrag}
-                onDragLeave={handleDrag}
-                onDragOver={handleDrag}
-                onDrop={handleDrop}
-                onClick={handleFileInputClick}
-                role="button"
-                tabIndex={0}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" || e.key === " ") {
-                    e.preventDefault();
-                    handleFileInputClick();
-                  }
-                }}>
-                <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center mb-3">
-                  <ArrowUp size={20} className="text-white" />
-                </div>
-                <button
-                  type="button"
-                  className="bg-white border border-blue-500 text-blue-600 hover:bg-blue-50 rounded px-4 py-2 text-xs font-medium mb-2 transition-colors"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleFileInputClick();
-                  }}>
-                  Add Files
-                </button>
-                <p className="text-xs text-gray-500 leading-tight">
-                  Or drag files to upload
+                className={styles.requirementTile({
+                  class: clsx(
+                    "border-warning-300 bg-warning-50 items-center justify-center gap-2 p-4 text-center",
+                    classNames?.requirementTile,
+                  ),
+                })}
+                role="alert"
+              >
+                <TriangleAlert className="text-warning-600" size={24} />
+                <p className="text-xs font-medium text-warning-700">
+                  {t("card.requirementsMissing", {
+                    role: worker.role,
+                    country: formatCountry(worker.destinationCountry),
+                  })}
                 </p>
-                <input
-                  id={fileInputId}
-                  type="file"
-                  className="hidden"
-                  accept={allowedFileTypes.join(",")}
-                  onChange={handleFileInputChange}
-                  aria-label="Upload medical result file"
-                />
               </div>
             )}
           </div>
-
-          {/* Medical Requirements */}
-          {requirements && (
-            <div className="relative">
-              <h4 className="text-[18px] font-bold text-[#1e3a8a] mb-4 leading-tight">
-                {requirementLabel}
-              </h4>
-              <div
-                className="bg-white rounded-lg shadow-sm border h-[200px] flex flex-col overflow-hidden"
-                style={{ borderColor: "#3592E6" }}>
-                <div className="flex-1 bg-gray-50 relative p-3">
-                  <div className="space-y-2">
-                    <div className="h-0.5 bg-gray-400 rounded w-4/5"></div>
-                    <div className="h-0.5 bg-gray-400 rounded w-3/5"></div>
-                    <div className="h-0.5 bg-gray-400 rounded w-full"></div>
-                    <div className="h-0.5 bg-gray-400 rounded w-2/3"></div>
-                    <div className="h-0.5 bg-gray-400 rounded w-4/5"></div>
-                    <div className="h-0.5 bg-gray-400 rounded w-1/2"></div>
-                  </div>
-                  <div className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full"></div>
-                </div>
-                <div
-                  className="p-3 border-t flex items-center justify-between"
-                  style={{ background: "#3592E6", borderTopColor: "#3592E6" }}>
-                  <div
-                    className="text-white text-[11px] font-medium truncate max-w-[120px]"
-                    title={requirements.title}>
-                    {requirements.title}
-                  </div>
-                  <Button
-                    className="flex items-center gap-1 bg-white rounded-md px-3 py-1 text-[12px] font-medium shadow-sm hover:bg-sky-50 transition-colors"
-                    style={{ color: "#3592E6" }}
-                    onClick={handleRequirementDownload}
-                    type="button">
-                    <CircleArrowDown size={16} style={{ color: "#3592E6" }} />
-                    <span style={{ color: "#3592E6" }}>Download</span>
-                  </Button>
-                </div>
-              </div>
-            </div>
-          )}
         </div>
 
+        {validity && (
+          <div
+            className={expiryIndicator({
+              state: validity.state,
+              class: "mt-4",
+            })}
+            title={t("validity.details", {
+              uploaded: formatDateTime(validity.uploadedAt),
+              expires: formatDateTime(validity.expiresAt),
+            })}
+          >
+            <CalendarClock size={14} />
+            <span>
+              {validity.state === "expired"
+                ? t("validity.expired", {
+                    date: formatDateTime(validity.expiresAt),
+                  })
+                : t("validity.expiresIn", { days: validity.daysLeft })}
+            </span>
+          </div>
+        )}
+
+        {requiredSlots.length > 1 && (
+          <p
+            className={`mt-4 text-xs font-medium ${
+              isComplete ? "text-success-600" : "text-default-500"
+            }`}
+          >
+            {t("card.requiredProgress", {
+              uploaded: requiredSlots.filter((slot) =>
+                filledSlotIds.includes(slot.id),
+              ).length,
+              total: requiredSlots.length,
+            })}
+          </p>
+        )}
+
         {/* Rejection Note */}
         {rejectionNote && status === "replace" && (
-          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
-            <p className="text-sm text-red-600 font-medium">Rejection Note:</p>
-            <p className="text-sm text-red-500 mt-1">{rejectionNote}</p>
+          <div
+            className={styles.rejectionNote({
+              class: classNames?.rejectionNote,
+            })}
+          >
+            <p className="text-sm text-danger-600 font-medium">
+              {t("card.rejectionNote")}
+            </p>
+            <p className="text-sm text-danger-500 mt-1">{rejectionNote}</p>
           </div>
         )}
-      </CardBody>
-    </Card>
-  );
-};
 
-const CustomReplaceIcon: React.FC<{
-  size?: number;
-  strokeSize?: number;
-  className?: string;
-}> = ({ size = 24, strokeSize = 4, className = "" }) => {
-  const userSize = size * 0.5;
-  const arrowSize = size * 0.5;
-  const userStroke = strokeSize;
+        {/* Replacement */}
+        {(worker.replaces || worker.replacedBy) && (
+          <div className="mt-4 space-y-1 text-xs text-default-500">
+            {worker.replaces && (
+              <p className="flex items-center gap-1">
+                <ArrowRightLeft size={14} />
+                {t("replacement.replaces", {
+                  name: worker.replaces.name,
+                  date: formatDateTime(worker.replaces.at),
+                })}
+              </p>
+            )}
+            {worker.replacedBy && (
+              <p className="flex items-center gap-1">
+                <ArrowRightLeft size={14} />
+                {t("replacement.replacedBy", {
+                  name: worker.replacedBy.name,
+                  date: formatDateTime(worker.replacedBy.at),
+                })}
+              </p>
+            )}
+          </div>
+        )}
+        {status === "replace" && !worker.replacedBy && onReplaceWorker && (
+          <ReplacementPanel
+            candidates={candidates}
+            worker={worker}
+            onReplace={handleReplaceWorker}
+          />
+        )}
 
-  return (
-    <div
-      className={`relative inline-flex items-center justify-center ${className}`}
-      style={{ width: size, height: size }}
-      role="img"
-      aria-label="Replace worker icon">
-      <UserRound
-        size={userSize}
-        strokeWidth={userStroke}
-        className="absolute top-0 left-0 text-red-500"
-      />
-      <UserRound
-        size={userSize}
-        strokeWidth={userStroke}
-        className="absolute bottom-0 right-0 text-red-500"
-      />
-      <CornerUpLeft
-        size={arrowSize}
-        strokeWidth={userStroke}
-        className="absolute top-0 right-0 text-red-500"
-      />
-      <CornerDownRight
-        size={arrowSize}
-        strokeWidth={userStroke}
-        className="absolute bottom-0 left-0 text-red-500"
-      />
-    </div>
+        {/* Reviewer Actions */}
+        {reviewMode && tests.length > 0 && (
+          <RequirementChecklist
+            confirmed={confirmedTests}
+            isDisabled={
+              !isComplete || !canTransition(lifecycle, status, "accepted")
+            }
+            tests={tests}
+            onConfirmedChange={setConfirmedTests}
+          />
+        )}
+
+        {reviewMode && (
+          <ReviewActions
+            acceptBlockedReason={
+              remainingTests.length > 0
+                ? t("checklist.incomplete", {
+                    remaining: remainingTests.length,
+                  })
+                : null
+            }
+            canAccept={
+              isComplete && canTransition(lifecycle, status, "accepted")
+            }
+            canRequestReplacement={canTransition(lifecycle, status, "replace")}
+            confirmedTests={confirmedTests}
+            reviewer={reviewerName}
+            workerName={worker.name}
+            onDecision={handleReviewDecision}
+          />
+        )}
+      </CardBody>
+    </Card>
   );
 };
 
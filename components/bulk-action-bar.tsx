@@ -0,0 +1,254 @@
+"use client";
+
+import { Alert } from "@heroui/alert";
+import { Button } from "@heroui/button";
+import { Checkbox } from "@heroui/checkbox";
+import { Textarea } from "@heroui/input";
+import {
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from "@heroui/modal";
+import { Check, Download, FileSpreadsheet, RefreshCw } from "lucide-react";
+import React, { useState } from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { RequirementChecklist } from "@/components/requirement-checklist";
+import { BulkAction, BulkReport } from "@/lib/bulk-actions";
+import { unconfirmedMandatoryTests } from "@/lib/requirements";
+import { RequirementTest } from "@/types";
+
+export interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  /** Tests of every selected worker, confirmed once before a bulk accept. */
+  acceptTests: RequirementTest[];
+  /** The action still running, which disables the others. */
+  busyAction: BulkAction | null;
+  report: BulkReport | null;
+  onSelectAll: (isSelected: boolean) => void;
+  onAccept: (confirmedTests: string[]) => void;
+  onRequestReplacement: (note: string) => void;
+  onDownload: () => void;
+  onExport: () => void;
+  onDismissReport: () => void;
+}
+
+/** The outcome of the last bulk action, listing every worker that failed. */
+const BulkReportAlert = ({
+  report,
+  onClose,
+}: {
+  report: BulkReport;
+  onClose: () => void;
+}) => {
+  const { t } = useLocale();
+  const failed = report.outcomes.filter((outcome) => !outcome.ok);
+  const succeeded = report.outcomes.length - failed.length;
+
+  return (
+    <Alert
+      isClosable
+      color={
+        failed.length === 0 ? "success" : succeeded > 0 ? "warning" : "danger"
+      }
+      title={t(`bulk.report.${report.action}`, {
+        succeeded,
+        total: report.outcomes.length,
+      })}
+      onClose={onClose}
+    >
+      {failed.length > 0 && (
+        <ul className="mt-1 flex flex-col gap-0.5 text-sm">
+          {failed.map(
+            (outcome) =>
+              !outcome.ok && (
+                <li key={outcome.workerId}>
+                  <span className="font-semibold">{outcome.name}</span>
+                  {": "}
+                  {outcome.error}
+                </li>
+              ),
+          )}
+        </ul>
+      )}
+    </Alert>
+  );
+};
+
+/**
+ * Select-all plus the actions that apply to every selected card: accept,
+ * request replacement with one shared note, download results and export.
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  visibleCount,
+  acceptTests,
+  busyAction,
+  report,
+  onSelectAll,
+  onAccept,
+  onRequestReplacement,
+  onDownload,
+  onExport,
+  onDismissReport,
+}) => {
+  const { t, dir } = useLocale();
+  const [dialog, setDialog] = useState<"accept" | "replace" | null>(null);
+  const [confirmedTests, setConfirmedTests] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [isNoteTouched, setIsNoteTouched] = useState(false);
+
+  const trimmedNote = note.trim();
+  const hasSelection = selectedCount > 0;
+  const isBusy = busyAction !== null;
+  const missingTests = unconfirmedMandatoryTests(acceptTests, confirmedTests);
+
+  const closeDialog = () => {
+    setDialog(null);
+    setConfirmedTests([]);
+    setNote("");
+    setIsNoteTouched(false);
+  };
+
+  const submit = () => {
+    if (dialog === "accept") {
+      if (missingTests.length > 0) return;
+      onAccept(confirmedTests);
+    } else {
+      setIsNoteTouched(true);
+      if (!trimmedNote) return;
+      onRequestReplacement(trimmedNote);
+    }
+    closeDialog();
+  };
+
+  return (
+    <div className="sticky top-16 z-20 flex flex-col gap-3 bg-background/80 py-2 backdrop-blur">
+      <div className="flex flex-wrap items-center gap-3">
+        <Checkbox
+          isDisabled={visibleCount === 0}
+          isIndeterminate={hasSelection && selectedCount < visibleCount}
+          isSelected={hasSelection && selectedCount === visibleCount}
+          size="sm"
+          onValueChange={() => onSelectAll(selectedCount < visibleCount)}
+        >
+          {hasSelection
+            ? t("bulk.selected", { count: selectedCount })
+            : t("bulk.selectAll")}
+        </Checkbox>
+        {hasSelection && (
+          <div className="ms-auto flex flex-wrap items-center gap-2">
+            <Button
+              color="danger"
+              isDisabled={isBusy}
+              isLoading={busyAction === "replace"}
+              size="sm"
+              startContent={<RefreshCw size={14} />}
+              variant="flat"
+              onPress={() => setDialog("replace")}
+            >
+              {t("review.requestReplacement")}
+            </Button>
+            <Button
+              color="success"
+              isDisabled={isBusy}
+              isLoading={busyAction === "accept"}
+              size="sm"
+              startContent={<Check size={14} />}
+              onPress={() => setDialog("accept")}
+            >
+              {t("review.accept")}
+            </Button>
+            <Button
+              isDisabled={isBusy}
+              isLoading={busyAction === "download"}
+              size="sm"
+              startContent={<Download size={14} />}
+              variant="flat"
+              onPress={onDownload}
+            >
+              {t("bulk.download")}
+            </Button>
+            <Button
+              isDisabled={isBusy}
+              size="sm"
+              startContent={<FileSpreadsheet size={14} />}
+              variant="flat"
+              onPress={onExport}
+            >
+              {t("bulk.export")}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {report && <BulkReportAlert report={report} onClose={onDismissReport} />}
+
+      <Modal
+        isOpen={dialog !== null}
+        scrollBehavior="inside"
+        onOpenChange={(open) => {
+          if (!open) closeDialog();
+        }}
+      >
+        {/* The modal is portaled out of the dashboard, so it needs its own dir */}
+        <ModalContent dir={dir}>
+          <ModalHeader>
+            {dialog === "accept"
+              ? t("bulk.acceptTitle", { count: selectedCount })
+              : t("bulk.replaceTitle", { count: selectedCount })}
+          </ModalHeader>
+          <ModalBody>
+            {dialog === "accept" ? (
+              acceptTests.length > 0 ? (
+                <RequirementChecklist
+                  confirmed={confirmedTests}
+                  tests={acceptTests}
+                  onConfirmedChange={setConfirmedTests}
+                />
+              ) : (
+                <p className="text-sm text-default-500">
+                  {t("bulk.acceptHint")}
+                </p>
+              )
+            ) : (
+              <Textarea
+                isRequired
+                description={t("bulk.sharedNote")}
+                errorMessage={t("review.noteRequired")}
+                isInvalid={isNoteTouched && !trimmedNote}
+                label={t("review.noteLabel")}
+                minRows={3}
+                placeholder={t("review.notePlaceholder")}
+                value={note}
+                onBlur={() => setIsNoteTouched(true)}
+                onValueChange={setNote}
+              />
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={closeDialog}>
+              {t("review.cancel")}
+            </Button>
+            {dialog === "accept" ? (
+              <Button
+                color="success"
+                isDisabled={missingTests.length > 0}
+                onPress={submit}
+              >
+                {t("review.accept")}
+              </Button>
+            ) : (
+              <Button color="danger" isDisabled={!trimmedNote} onPress={submit}>
+                {t("review.requestReplacement")}
+              </Button>
+            )}
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
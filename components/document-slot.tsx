@@ -0,0 +1,937 @@
+"use client";
+
+import {
+  ArrowUp,
+  Check,
+  CircleArrowDown,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useState,
+} from "react";
+
+import { DocumentViewer } from "@/components/document-viewer";
+import { useLocale } from "@/components/locale-provider";
+import {
+  MedicalCardClassNames,
+  MedicalCardStyles,
+  statusPreview,
+} from "@/components/primitives";
+import { VersionHistory } from "@/components/version-history";
+import {
+  deleteCachedFile,
+  getCachedFile,
+  isBlobCacheAvailable,
+  putCachedFile,
+} from "@/lib/blob-cache";
+import {
+  CardErrorHandler,
+  errorMessage,
+  CardError,
+  reportCardError,
+  UploadValidationError,
+} from "@/lib/card-errors";
+import { ResolvedDocumentSlot } from "@/lib/document-slots";
+import {
+  acceptAttribute,
+  FileRejection,
+  fileTypeLabels,
+  typeFromExtension,
+  validateFile,
+} from "@/lib/file-validation";
+import {
+  clearResult,
+  fetchHistory,
+  fetchResult,
+  restoreVersion,
+  uploadResult,
+} from "@/lib/result-api";
+import {
+  addVersion,
+  createLocalVersionId,
+  loadLocalHistory,
+  localResultKey,
+  saveLocalHistory,
+  versionCacheKey,
+} from "@/lib/result-history";
+import { getStatusDefinition, StatusLifecycle } from "@/lib/status-lifecycle";
+import { migrateStorageKey } from "@/lib/storage-migration";
+import {
+  hashFile,
+  runValidators,
+  UploadValidator,
+} from "@/lib/upload-validators";
+import { FileData, ResultHistory, Status } from "@/types";
+
+export interface DocumentSlotHandle {
+  /** Validate, store and show a file in this slot. */
+  upload: (file: File) => Promise<void>;
+}
+
+export interface DocumentSlotUploadProps {
+  slot: ResolvedDocumentSlot;
+  /** Key the slot's files are stored under, locally and on the server. */
+  storageKey: string;
+  /** Key older versions of the card stored this slot under, if different. */
+  legacyStorageKey?: string;
+  /** The slot's current file; the card owns this state. */
+  value: FileData | null;
+  /** Load the current file from the server or this browser on mount. */
+  hydrate: boolean;
+  resultsEndpoint: string | null;
+  uploaderName?: string;
+  status: Status;
+  lifecycle: StatusLifecycle;
+  /** Why uploads are blocked right now, or null when they are allowed. */
+  uploadBlockedReason: string | null;
+  /** Extra checks run after the built-in content validation. */
+  validators: UploadValidator[];
+  /** The card's slot styles, so size and radius apply to every tile. */
+  styles: MedicalCardStyles;
+  classNames?: MedicalCardClassNames;
+  /** Files dropped on this slot; the card decides where each one goes. */
+  onFilesDropped: (files: File[], slot: ResolvedDocumentSlot) => void;
+  /** A new upload or a restored version became this slot's current file. */
+  onUploaded: (file: FileData, slot: ResolvedDocumentSlot) => void;
+  /** An upload, restore, removal or hydration changed the current file. */
+  onFileChange: (slotId: string, file: FileData | null) => void;
+  /** Every reason a file was refused, also listed in the drop zone. */
+  onValidationError?: (
+    errors: UploadValidationError[],
+    slot: ResolvedDocumentSlot,
+  ) => void;
+  onError?: CardErrorHandler;
+}
+
+export const DocumentSlotUpload = forwardRef<
+  DocumentSlotHandle,
+  DocumentSlotUploadProps
+>(function DocumentSlotUpload(
+  {
+    slot,
+    storageKey,
+    legacyStorageKey,
+    value,
+    hydrate,
+    resultsEndpoint,
+    uploaderName,
+    status,
+    lifecycle,
+    uploadBlockedReason,
+    validators,
+    styles,
+    classNames,
+    onFilesDropped,
+    onUploaded,
+    onFileChange,
+    onValidationError,
+    onError,
+  },
+  ref,
+) {
+  const domId = useId();
+  const [dragActive, setDragActive] = useState(false);
+  const uploadedFile = value;
+  // Bytes of the last file handled here, tagged with its version id.
+  const [fileObject, setFileObject] = useState<{
+    id?: string;
+    file: File;
+  } | null>(null);
+  const [isClient, setIsClient] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const { t, formatAlternatives, formatStatus } = useLocale();
+
+  /** Tell the host about a failure, or toast it */
+  const reportError = useCallback(
+    (error: CardError) =>
+      reportCardError(error, { title: t(`errorTitle.${error.code}`), onError }),
+    [t, onError],
+  );
+  const [validationErrors, setValidationErrors] = useState<
+    UploadValidationError[]
+  >([]);
+  const [viewerFile, setViewerFile] = useState<File | null>(null);
+  const [history, setHistory] = useState<ResultHistory | null>(null);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+
+  const localStorageKey = localResultKey(storageKey);
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  // Runs before hydration below, so moved entries are found right away.
+  useEffect(() => {
+    if (legacyStorageKey) migrateStorageKey(legacyStorageKey, storageKey);
+  }, [legacyStorageKey, storageKey]);
+
+  /** Load the persisted result from the server, falling back to localStorage */
+  useEffect(() => {
+    if (!hydrate || !isClient || typeof window === "undefined") return;
+
+    let cancelled = false;
+
+    const loadFromLocalStorage = () => {
+      try {
+        const saved = localStorage.getItem(localStorageKey);
+
+        if (saved) {
+          const parsedFile = JSON.parse(saved);
+
+          if (
+            parsedFile &&
+            parsedFile.name &&
+            parsedFile.size &&
+            parsedFile.type
+          ) {
+            onFileChange(slot.id, parsedFile);
+          }
+        }
+      } catch {
+        localStorage.removeItem(localStorageKey);
+      }
+    };
+
+    if (!resultsEndpoint) {
+      loadFromLocalStorage();
+
+      return;
+    }
+
+    fetchResult(resultsEndpoint, storageKey)
+      .then((stored) => {
+        if (cancelled) return;
+        // The server knows nothing under this key, e.g. for a result just
+        // migrated from a name-derived key: keep what the browser has.
+        if (!stored) {
+          loadFromLocalStorage();
+
+          return;
+        }
+        localStorage.setItem(localStorageKey, JSON.stringify(stored));
+        onFileChange(slot.id, stored);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn("Failed to load medical result:", error);
+        loadFromLocalStorage();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, hydrate, isClient, resultsEndpoint]);
+
+  /** Keep the bytes in IndexedDB as both the current file and its version */
+  const cacheFile = useCallback(
+    (file: File, versionId?: string) => {
+      if (!isBlobCacheAvailable()) return;
+      const keys = versionId
+        ? [storageKey, versionCacheKey(storageKey, versionId)]
+        : [storageKey];
+
+      Promise.all(keys.map((key) => putCachedFile(key, file))).catch(
+        (error) => {
+          console.warn("Failed to cache file:", error);
+        },
+      );
+    },
+    [storageKey],
+  );
+
+  /** Bytes of a version from memory, the browser cache or our own server */
+  const loadVersionFile = useCallback(
+    async (version: FileData): Promise<File | null> => {
+      if (fileObject && fileObject.id === version.id) return fileObject.file;
+
+      if (isBlobCacheAvailable()) {
+        const cached = await getCachedFile(
+          version.id ? versionCacheKey(storageKey, version.id) : storageKey,
+        ).catch(() => null);
+
+        if (cached) return cached;
+      }
+
+      if (!version.url) return null;
+
+      const response = await fetch(version.url);
+
+      if (!response.ok) throw new Error(response.statusText);
+
+      const file = new File([await response.blob()], version.name, {
+        type: version.type,
+      });
+
+      cacheFile(file, version.id);
+      setFileObject({ id: version.id, file });
+
+      return file;
+    },
+    [fileObject, storageKey, cacheFile],
+  );
+
+  /** Earlier versions of this slot, for validators that compare uploads */
+  const loadPreviousVersions = useCallback(async () => {
+    if (history) return history.versions;
+
+    const loaded = resultsEndpoint
+      ? await fetchHistory(resultsEndpoint, storageKey)
+      : loadLocalHistory(storageKey);
+
+    return loaded.versions;
+  }, [history, resultsEndpoint, storageKey]);
+
+  const describeTypes = useCallback(
+    (types: string[]) => formatAlternatives(fileTypeLabels(types)),
+    [formatAlternatives],
+  );
+
+  /** The built-in rejection, in the card's language */
+  const rejectionMessage = useCallback(
+    ({ code, fileName, detectedType }: FileRejection) => {
+      const claimed = typeFromExtension(fileName);
+
+      return t(`validation.${code}`, {
+        maxSize: slot.maxFileSizeMB,
+        types: describeTypes(slot.allowedFileTypes),
+        claimed: claimed ? describeTypes([claimed]) : "",
+        detected: detectedType ? describeTypes([detectedType]) : "",
+      });
+    },
+    [slot, t, describeTypes],
+  );
+
+  /** File upload handler */
+  const handleFileUpload = useCallback(
+    async (selected: File) => {
+      if (uploadBlockedReason) {
+        reportError({
+          code: "upload_blocked",
+          message: uploadBlockedReason,
+          slotId: slot.id,
+          fileName: selected.name,
+        });
+
+        return;
+      }
+
+      setValidationErrors([]);
+      setIsValidating(true);
+
+      let file = selected;
+      let errors: UploadValidationError[];
+
+      try {
+        const validation = await validateFile(selected, slot);
+
+        // Carry the type found in the content, not the browser's guess.
+        if (validation.ok && validation.type !== selected.type) {
+          file = new File([selected], selected.name, {
+            type: validation.type,
+            lastModified: selected.lastModified,
+          });
+        }
+        errors = validation.ok
+          ? (
+              await runValidators(file, validators, {
+                slot,
+                previousVersions: loadPreviousVersions,
+              })
+            ).map((failure) => ({
+              code: "validator_failed",
+              fileName: file.name,
+              slotId: slot.id,
+              message: failure.message,
+              validator: failure.validator,
+            }))
+          : [
+              {
+                code: validation.rejection.code,
+                fileName: file.name,
+                slotId: slot.id,
+                message: rejectionMessage(validation.rejection),
+              },
+            ];
+      } catch {
+        // The browser could not read the file at all.
+        const rejection: FileRejection = {
+          code: "corrupt",
+          fileName: selected.name,
+          message: "The file could not be read.",
+        };
+
+        errors = [
+          {
+            code: rejection.code,
+            fileName: selected.name,
+            slotId: slot.id,
+            message: rejectionMessage(rejection),
+          },
+        ];
+      } finally {
+        setIsValidating(false);
+      }
+
+      if (errors.length > 0) {
+        setValidationErrors(errors);
+        onValidationError?.(errors, slot);
+
+        return;
+      }
+
+      let fileData: FileData = {
+        id: createLocalVersionId(),
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        uploadedAt: new Date().toISOString(),
+        uploadedBy: uploaderName,
+        statusAtUpload: status,
+        sha256: await hashFile(file).catch(() => undefined),
+      };
+
+      if (resultsEndpoint) {
+        setIsUploading(true);
+        try {
+          fileData = await uploadResult(resultsEndpoint, storageKey, file, {
+            uploadedBy: uploaderName,
+            statusAtUpload: status,
+          });
+        } catch (error) {
+          reportError({
+            code: "upload_failed",
+            message: errorMessage(error),
+            slotId: slot.id,
+            fileName: file.name,
+            cause: error,
+          });
+
+          return;
+        } finally {
+          setIsUploading(false);
+        }
+      }
+
+      setFileObject({ id: fileData.id, file });
+      onFileChange(slot.id, fileData);
+
+      if (typeof window !== "undefined") {
+        try {
+          localStorage.setItem(localStorageKey, JSON.stringify(fileData));
+        } catch (error) {
+          console.warn("Failed to save file data:", error);
+        }
+      }
+
+      if (!resultsEndpoint) {
+        saveLocalHistory(
+          storageKey,
+          addVersion(loadLocalHistory(storageKey), fileData),
+        );
+      }
+      setHistory((current) => current && addVersion(current, fileData));
+      cacheFile(file, fileData.id);
+
+      onUploaded(fileData, slot);
+    },
+    [
+      slot,
+      uploadBlockedReason,
+      validators,
+      loadPreviousVersions,
+      rejectionMessage,
+      uploaderName,
+      status,
+      resultsEndpoint,
+      storageKey,
+      localStorageKey,
+      cacheFile,
+      onUploaded,
+      onFileChange,
+      onValidationError,
+      reportError,
+    ],
+  );
+
+  useImperativeHandle(ref, () => ({ upload: handleFileUpload }), [
+    handleFileUpload,
+  ]);
+
+  const handleDrag = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(e.type === "dragenter" || e.type === "dragover");
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDragActive(false);
+      const files = Array.from(e.dataTransfer.files ?? []);
+
+      if (files.length === 1) handleFileUpload(files[0]);
+      else if (files.length > 1) onFilesDropped(files, slot);
+    },
+    [handleFileUpload, onFilesDropped, slot],
+  );
+
+  const handleFileInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? []);
+
+      if (files.length === 1) handleFileUpload(files[0]);
+      else if (files.length > 1) onFilesDropped(files, slot);
+      e.target.value = "";
+    },
+    [handleFileUpload, onFilesDropped, slot],
+  );
+
+  const fileInputId = `${domId}-file-input`;
+  const errorListId = `${domId}-upload-errors`;
+
+  const handleFileInputClick = useCallback(() => {
+    const fileInput = document.getElementById(fileInputId);
+
+    fileInput?.click();
+  }, [fileInputId]);
+
+  /** Open a version in the built-in viewer; nothing is sent to third parties */
+  const previewVersion = useCallback(
+    async (version: FileData) => {
+      try {
+        const file = await loadVersionFile(version);
+
+        if (file) {
+          setViewerFile(file);
+
+          return;
+        }
+        // Neither the server nor the browser cache has the file anymore
+        reportError({
+          code: "file_unavailable",
+          message: t("slot.fileUnavailable"),
+          slotId: slot.id,
+          fileName: version.name,
+        });
+      } catch (error) {
+        reportError({
+          code: "preview_failed",
+          message: t("slot.previewFailed", { error: errorMessage(error) }),
+          slotId: slot.id,
+          fileName: version.name,
+          cause: error,
+        });
+      }
+    },
+    [slot, loadVersionFile, reportError, t],
+  );
+
+  const handleFilePreview = useCallback(() => {
+    if (uploadedFile) previewVersion(uploadedFile);
+  }, [uploadedFile, previewVersion]);
+
+  const loadHistory = useCallback(async () => {
+    if (!resultsEndpoint) {
+      setHistory(loadLocalHistory(storageKey));
+
+      return;
+    }
+
+    setIsHistoryLoading(true);
+    try {
+      setHistory(await fetchHistory(resultsEndpoint, storageKey));
+    } catch (error) {
+      console.warn("Failed to load version history:", error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, [resultsEndpoint, storageKey]);
+
+  /** Make an earlier version the current result */
+  const handleRestoreVersion = useCallback(
+    async (version: FileData) => {
+      if (!version.id || uploadBlockedReason) return;
+
+      let restored = version;
+
+      try {
+        if (resultsEndpoint) {
+          restored = await restoreVersion(
+            resultsEndpoint,
+            storageKey,
+            version.id,
+          );
+        } else {
+          saveLocalHistory(storageKey, {
+            ...loadLocalHistory(storageKey),
+            currentId: version.id,
+          });
+        }
+      } catch (error) {
+        reportError({
+          code: "restore_failed",
+          message: errorMessage(error),
+          slotId: slot.id,
+          fileName: version.name,
+          cause: error,
+        });
+
+        return;
+      }
+
+      const file = await loadVersionFile(restored).catch(() => null);
+
+      onFileChange(slot.id, restored);
+      setHistory(
+        (current) => current && { ...current, currentId: version.id! },
+      );
+      localStorage.setItem(localStorageKey, JSON.stringify(restored));
+      if (file) cacheFile(file);
+
+      onUploaded(restored, slot);
+    },
+    [
+      slot,
+      uploadBlockedReason,
+      resultsEndpoint,
+      storageKey,
+      localStorageKey,
+      loadVersionFile,
+      cacheFile,
+      onFileChange,
+      onUploaded,
+      reportError,
+    ],
+  );
+
+  /** Empty the slot; the file stays in the history and can be restored */
+  const handleRemove = useCallback(async () => {
+    if (!uploadedFile || uploadBlockedReason) return;
+
+    try {
+      if (resultsEndpoint) {
+        await clearResult(resultsEndpoint, storageKey);
+      } else {
+        saveLocalHistory(storageKey, {
+          ...loadLocalHistory(storageKey),
+          currentId: null,
+        });
+      }
+    } catch (error) {
+      reportError({
+        code: "remove_failed",
+        message: errorMessage(error),
+        slotId: slot.id,
+        fileName: uploadedFile.name,
+        cause: error,
+      });
+
+      return;
+    }
+
+    localStorage.removeItem(localStorageKey);
+    if (isBlobCacheAvailable()) {
+      deleteCachedFile(storageKey).catch((error) => {
+        console.warn("Failed to drop cached file:", error);
+      });
+    }
+    setHistory((current) => current && { ...current, currentId: null });
+    setValidationErrors([]);
+    onFileChange(slot.id, null);
+  }, [
+    slot,
+    uploadedFile,
+    uploadBlockedReason,
+    resultsEndpoint,
+    storageKey,
+    localStorageKey,
+    onFileChange,
+    reportError,
+  ]);
+
+  /** Save a file back to disk */
+  const downloadFile = useCallback((file: File) => {
+    const href = URL.createObjectURL(file);
+    const link = document.createElement("a");
+
+    link.href = href;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(href);
+  }, []);
+
+  /** Save the current file back to disk */
+  const handleFileDownload = useCallback(async () => {
+    if (!uploadedFile) return;
+
+    const file = await loadVersionFile(uploadedFile).catch(() => null);
+
+    if (!file) {
+      reportError({
+        code: "file_unavailable",
+        message: t("slot.fileUnavailable"),
+        slotId: slot.id,
+        fileName: uploadedFile.name,
+      });
+
+      return;
+    }
+
+    downloadFile(file);
+  }, [slot, uploadedFile, loadVersionFile, downloadFile, reportError, t]);
+
+  const statusDefinition = getStatusDefinition(lifecycle, status);
+  const preview = statusPreview({
+    color: statusDefinition.color,
+    emphasis: statusDefinition.emphasis,
+  });
+
+  return (
+    <div>
+      <div className={styles.tileHeader({ class: classNames?.tileHeader })}>
+        <h4 className={styles.tileTitle({ class: classNames?.tileTitle })}>
+          {slot.label}
+        </h4>
+        {uploadedFile ? (
+          <span className="rounded bg-success-100 px-1.5 py-0.5 text-[10px] font-semibold text-success-700">
+            {t("slot.uploaded")}
+          </span>
+        ) : slot.required ? (
+          <span className="rounded bg-danger-100 px-1.5 py-0.5 text-[10px] font-semibold text-danger-600">
+            {t("slot.required")}
+          </span>
+        ) : (
+          <span className="rounded bg-default-100 px-1.5 py-0.5 text-[10px] font-semibold text-default-500">
+            {t("slot.optional")}
+          </span>
+        )}
+      </div>
+      {uploadedFile ? (
+        <div className="relative">
+          <div
+            className={preview.frame({
+              class: styles.previewTile({
+                class: [
+                  dragActive && "ring-2 ring-primary",
+                  classNames?.previewTile,
+                ],
+              }),
+            })}
+            role="button"
+            tabIndex={0}
+            onClick={handleFilePreview}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                handleFilePreview();
+              }
+            }}
+          >
+            <div className="flex-1 bg-default-50 relative p-3">
+              {(dragActive || isValidating || isUploading) && (
+                <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center bg-primary-50/90 text-sm font-medium text-primary-700">
+                  {t(
+                    isValidating
+                      ? "slot.checking"
+                      : isUploading
+                        ? "slot.uploading"
+                        : "slot.dropToReplace",
+                  )}
+                </div>
+              )}
+              <div className="space-y-2">
+                <div className="h-0.5 bg-default-300 rounded w-4/5" />
+                <div className="h-0.5 bg-default-300 rounded w-3/5" />
+                <div className="h-0.5 bg-default-300 rounded w-full" />
+                <div className="h-0.5 bg-default-300 rounded w-2/3" />
+                <div className="h-0.5 bg-default-300 rounded w-4/5" />
+                <div className="h-0.5 bg-default-300 rounded w-1/2" />
+              </div>
+              <div className="absolute top-2 end-2 w-2 h-2 bg-danger rounded-full" />
+            </div>
+            <div
+              className={preview.footer({
+                class: "p-3 flex items-center justify-between",
+              })}
+            >
+              <div
+                className="text-sm font-medium truncate max-w-[120px]"
+                title={uploadedFile.name}
+              >
+                {uploadedFile.name}
+              </div>
+              <div className="flex flex-shrink-0 items-center">
+                {!uploadBlockedReason && (
+                  <>
+                    <button
+                      aria-label={t("slot.replaceAria", {
+                        fileName: uploadedFile.name,
+                      })}
+                      className="rounded p-1 hover:bg-foreground/10 transition-colors"
+                      title={t("slot.replace")}
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleFileInputClick();
+                      }}
+                    >
+                      <RefreshCw size={16} />
+                    </button>
+                    <button
+                      aria-label={t("slot.removeAria", {
+                        fileName: uploadedFile.name,
+                      })}
+                      className="rounded p-1 hover:bg-foreground/10 transition-colors"
+                      title={t("slot.remove")}
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemove();
+                      }}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </>
+                )}
+                <button
+                  aria-label={t("slot.downloadAria", {
+                    fileName: uploadedFile.name,
+                  })}
+                  className="rounded p-1 hover:bg-foreground/10 transition-colors"
+                  title={t("slot.download")}
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleFileDownload();
+                  }}
+                >
+                  <CircleArrowDown size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center text-xs text-default-500 mt-2">
+            <Check className="text-success me-1.5 flex-shrink-0" size={12} />
+            <span>
+              {t("slot.constraints", {
+                types: describeTypes(slot.allowedFileTypes),
+                maxSize: slot.maxFileSizeMB,
+              })}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div
+          aria-describedby={
+            validationErrors.length > 0 ? errorListId : undefined
+          }
+          className={styles.uploadZone({
+            class: [
+              dragActive
+                ? "border-primary bg-primary-50"
+                : validationErrors.length > 0
+                  ? "border-danger bg-danger-50"
+                  : "border-default-300 hover:border-default-400 bg-content1",
+              classNames?.uploadZone,
+            ],
+          })}
+          role="button"
+          tabIndex={0}
+          onClick={handleFileInputClick}
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === " ") {
+              e.preventDefault();
+              handleFileInputClick();
+            }
+          }}
+        >
+          <div className="w-10 h-10 bg-brand rounded-full flex items-center justify-center mb-3">
+            <ArrowUp className="text-brand-foreground" size={20} />
+          </div>
+          <button
+            className="bg-content1 border border-brand text-brand hover:bg-brand/10 rounded px-4 py-2 text-xs font-medium mb-2 transition-colors"
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleFileInputClick();
+            }}
+          >
+            {t("slot.addFiles")}
+          </button>
+          <p className="text-xs text-default-500 leading-tight">
+            {t(
+              isValidating
+                ? "slot.checking"
+                : isUploading
+                  ? "slot.uploading"
+                  : "slot.dragHint",
+            )}
+          </p>
+        </div>
+      )}
+      {/* Shared by Add Files and Replace */}
+      <input
+        multiple
+        accept={acceptAttribute(slot.allowedFileTypes)}
+        aria-label={t("slot.uploadAria", { label: slot.label })}
+        className="hidden"
+        id={fileInputId}
+        type="file"
+        onChange={handleFileInputChange}
+      />
+
+      {validationErrors.length > 0 && (
+        <ul
+          className="mt-2 space-y-1 text-xs text-danger"
+          id={errorListId}
+          role="alert"
+        >
+          {validationErrors.map((error) => (
+            <li key={`${error.validator}-${error.message}`}>
+              {error.validator && (
+                <span className="font-semibold">{error.validator}: </span>
+              )}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Version History */}
+      <VersionHistory
+        canRestore={!uploadBlockedReason}
+        getStatusLabel={(value) =>
+          formatStatus(value, getStatusDefinition(lifecycle, value).label)
+        }
+        history={history}
+        isLoading={isHistoryLoading}
+        onExpand={loadHistory}
+        onPreview={previewVersion}
+        onRestore={handleRestoreVersion}
+      />
+
+      <DocumentViewer
+        file={viewerFile}
+        isOpen={!!viewerFile}
+        onClose={() => setViewerFile(null)}
+        onDownload={() => viewerFile && downloadFile(viewerFile)}
+      />
+    </div>
+  );
+});
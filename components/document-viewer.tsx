@@ -0,0 +1,315 @@
+"use client";
+
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+import {
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from "@heroui/modal";
+import { Button } from "@heroui/button";
+import { Spinner } from "@heroui/spinner";
+import {
+  ChevronLeft,
+  ChevronRight,
+  CircleArrowDown,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { MessageKey } from "@/lib/i18n";
+import { loadPdf } from "@/lib/pdf-document";
+
+export interface DocumentViewerProps {
+  isOpen: boolean;
+  file: File | null;
+  onClose: () => void;
+  onDownload?: () => void;
+}
+
+type ViewerContent =
+  | { kind: "pdf"; doc: PDFDocumentProxy }
+  | { kind: "html"; html: string }
+  | { kind: "image"; url: string }
+  | { kind: "unsupported"; reason: MessageKey };
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DOCX_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const extensionOf = (name: string) =>
+  name.slice(name.lastIndexOf(".") + 1).toLowerCase();
+
+const isPdf = (file: File) =>
+  file.type === "application/pdf" || extensionOf(file.name) === "pdf";
+
+const isDocx = (file: File) =>
+  file.type === DOCX_TYPE || extensionOf(file.name) === "docx";
+
+/**
+ * mammoth only inlines embedded images as data URLs, but a document may still
+ * reference external resources. Strip anything that would make the browser
+ * fetch from another origin.
+ */
+const sanitizeDocxHtml = (html: string) => {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+
+  parsed.querySelectorAll("script, iframe, object, embed").forEach((node) => {
+    node.remove();
+  });
+  parsed.querySelectorAll("[src]").forEach((node) => {
+    if (!node.getAttribute("src")?.startsWith("data:")) node.remove();
+  });
+  parsed.querySelectorAll("a[href]").forEach((node) => {
+    if (!node.getAttribute("href")?.startsWith("#")) {
+      node.removeAttribute("href");
+    }
+  });
+
+  return parsed.body.innerHTML;
+};
+
+const loadContent = async (file: File): Promise<ViewerContent> => {
+  if (isPdf(file)) {
+    try {
+      return {
+        kind: "pdf",
+        doc: await loadPdf(new Uint8Array(await file.arrayBuffer())),
+      };
+    } catch (error) {
+      return {
+        kind: "unsupported",
+        reason:
+          error instanceof Error && error.name === "PasswordException"
+            ? "viewer.passwordProtected"
+            : "viewer.pdfUnreadable",
+      };
+    }
+  }
+
+  if (isDocx(file)) {
+    const mammoth = await import("mammoth");
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer: await file.arrayBuffer() },
+      { externalFileAccess: false },
+    );
+
+    return { kind: "html", html: sanitizeDocxHtml(result.value) };
+  }
+
+  if (file.type.startsWith("image/")) {
+    return { kind: "image", url: URL.createObjectURL(file) };
+  }
+
+  return {
+    kind: "unsupported",
+    reason: "viewer.unsupported",
+  };
+};
+
+const PdfPage: React.FC<{
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  zoom: number;
+}> = ({ doc, pageNumber, zoom }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let cancelRender = () => {};
+
+    doc.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d");
+
+      if (cancelled || !canvas || !context) return;
+
+      const pixelRatio = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale: zoom * pixelRatio });
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.style.width = `${viewport.width / pixelRatio}px`;
+      canvas.style.height = `${viewport.height / pixelRatio}px`;
+
+      const task = page.render({ canvasContext: context, viewport });
+
+      cancelRender = () => task.cancel();
+      task.promise.catch(() => {
+        // Cancelled by a newer render.
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      cancelRender();
+    };
+  }, [doc, pageNumber, zoom]);
+
+  return <canvas ref={canvasRef} className="mx-auto shadow-md bg-white" />;
+};
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({
+  isOpen,
+  file,
+  onClose,
+  onDownload,
+}) => {
+  const [content, setContent] = useState<ViewerContent | null>(null);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_STEPS.indexOf(1));
+  const [pageNumber, setPageNumber] = useState(1);
+  const { t, dir, formatNumber } = useLocale();
+
+  useEffect(() => {
+    if (!isOpen || !file) return;
+
+    let cancelled = false;
+    let loaded: ViewerContent | null = null;
+    const release = (result: ViewerContent) => {
+      if (result.kind === "pdf") result.doc.destroy();
+      if (result.kind === "image") URL.revokeObjectURL(result.url);
+    };
+
+    setContent(null);
+    setPageNumber(1);
+    setZoomIndex(ZOOM_STEPS.indexOf(1));
+    loadContent(file)
+      .catch(
+        (): ViewerContent => ({
+          kind: "unsupported",
+          reason: "viewer.openFailed",
+        }),
+      )
+      .then((result) => {
+        // Closed while loading: nobody will show it, so free it now.
+        if (cancelled) return release(result);
+        loaded = result;
+        setContent(result);
+      });
+
+    return () => {
+      cancelled = true;
+      if (loaded) release(loaded);
+    };
+  }, [isOpen, file]);
+
+  const zoom = ZOOM_STEPS[zoomIndex];
+  const pageCount = content?.kind === "pdf" ? content.doc.numPages : 1;
+  const canZoom = content !== null && content.kind !== "unsupported";
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      scrollBehavior="inside"
+      size="5xl"
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <ModalContent dir={dir}>
+        <ModalHeader className="flex items-center gap-2 pe-12">
+          <span className="truncate" title={file?.name}>
+            {file?.name}
+          </span>
+        </ModalHeader>
+        <ModalBody className="bg-default-100 min-h-[60vh] py-6">
+          {!content ? (
+            <div className="flex flex-1 items-center justify-center">
+              <Spinner label={t("viewer.loading")} />
+            </div>
+          ) : content.kind === "unsupported" ? (
+            <div className="flex flex-1 items-center justify-center text-sm text-default-500">
+              {t(content.reason)}
+            </div>
+          ) : content.kind === "pdf" ? (
+            <PdfPage doc={content.doc} pageNumber={pageNumber} zoom={zoom} />
+          ) : content.kind === "image" ? (
+            // Object URLs cannot go through next/image optimization.
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              alt={file?.name ?? ""}
+              className="mx-auto max-w-none shadow-md"
+              src={content.url}
+              style={{ width: `${zoom * 100}%` }}
+            />
+          ) : (
+            // Generated locally by mammoth and sanitized above.
+            <div
+              dangerouslySetInnerHTML={{ __html: content.html }}
+              className="mx-auto w-full max-w-3xl bg-white text-black p-10 shadow-md"
+              style={{ transform: `scale(${zoom})`, transformOrigin: "top" }}
+            />
+          )}
+        </ModalBody>
+        <ModalFooter className="flex items-center justify-between">
+          <div className="flex items-center gap-1">
+            <Button
+              isIconOnly
+              aria-label={t("viewer.zoomOut")}
+              isDisabled={!canZoom || zoomIndex === 0}
+              size="sm"
+              variant="light"
+              onPress={() => setZoomIndex((index) => index - 1)}
+            >
+              <ZoomOut size={16} />
+            </Button>
+            <span className="w-12 text-center text-sm tabular-nums">
+              {formatNumber(zoom, { style: "percent" })}
+            </span>
+            <Button
+              isIconOnly
+              aria-label={t("viewer.zoomIn")}
+              isDisabled={!canZoom || zoomIndex === ZOOM_STEPS.length - 1}
+              size="sm"
+              variant="light"
+              onPress={() => setZoomIndex((index) => index + 1)}
+            >
+              <ZoomIn size={16} />
+            </Button>
+          </div>
+          {content?.kind === "pdf" && (
+            <div className="flex items-center gap-1">
+              <Button
+                isIconOnly
+                aria-label={t("viewer.previousPage")}
+                isDisabled={pageNumber <= 1}
+                size="sm"
+                variant="light"
+                onPress={() => setPageNumber((page) => page - 1)}
+              >
+                <ChevronLeft className="rtl:rotate-180" size={16} />
+              </Button>
+              <span className="text-sm tabular-nums">
+                {t("viewer.pageOf", { page: pageNumber, total: pageCount })}
+              </span>
+              <Button
+                isIconOnly
+                aria-label={t("viewer.nextPage")}
+                isDisabled={pageNumber >= pageCount}
+                size="sm"
+                variant="light"
+                onPress={() => setPageNumber((page) => page + 1)}
+              >
+                <ChevronRight className="rtl:rotate-180" size={16} />
+              </Button>
+            </div>
+          )}
+          {onDownload && (
+            <Button
+              color="primary"
+              size="sm"
+              startContent={<CircleArrowDown size={16} />}
+              onPress={onDownload}
+            >
+              {t("viewer.download")}
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -1,4 +1,5 @@
 import * as React from "react";
+import { CornerDownRight, CornerUpLeft, UserRound } from "lucide-react";
 
 import { IconSvgProps } from "@/types";
 
@@ -185,3 +186,44 @@ export const SearchIcon = (props: IconSvgProps) => (
     />
   </svg>
 );
+
+export const CustomReplaceIcon: React.FC<{
+  size?: number;
+  strokeSize?: number;
+  className?: string;
+}> = ({ size = 24, strokeSize = 4, className = "" }) => {
+  const userSize = size * 0.5;
+  const arrowSize = size * 0.5;
+  const userStroke = strokeSize;
+
+  return (
+    <div
+      aria-label="Replace worker icon"
+      // Mirrored in right-to-left layouts so the arrow follows reading order.
+      className={`relative inline-flex items-center justify-center rtl:-scale-x-100 ${className}`}
+      role="img"
+      style={{ width: size, height: size }}
+    >
+      <UserRound
+        className="absolute top-0 left-0 text-danger"
+        size={userSize}
+        strokeWidth={userStroke}
+      />
+      <UserRound
+        className="absolute bottom-0 right-0 text-danger"
+        size={userSize}
+        strokeWidth={userStroke}
+      />
+      <CornerUpLeft
+        className="absolute top-0 right-0 text-danger"
+        size={arrowSize}
+        strokeWidth={userStroke}
+      />
+      <CornerDownRight
+        className="absolute bottom-0 left-0 text-danger"
+        size={arrowSize}
+        strokeWidth={userStroke}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from "react";
+
+import {
+  catalogFor,
+  createTranslator,
+  DEFAULT_LOCALE,
+  formatFileSize,
+  isMessageKey,
+  Messages,
+  supportedLocale,
+  textDirection,
+  Translate,
+} from "@/lib/i18n";
+import { ageOn } from "@/lib/worker";
+import { Salary } from "@/types";
+
+export interface LocaleContextValue {
+  locale: string;
+  dir: "ltr" | "rtl";
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** e.g. "Oct 19, 2026, 5:03 AM UTC"; in UTC so both renders agree. */
+  formatDateTime: (value: string | number | Date) => string;
+  /** A calendar date such as a date of birth, e.g. "14 Mar 1993". */
+  formatDate: (isoDate: string) => string;
+  formatFileSize: (bytes: number) => string;
+  /** Translated label of a built-in status, else `fallback`. */
+  formatStatus: (status: string, fallback: string) => string;
+  /** e.g. "PDF, DOC, or DOCX". */
+  formatAlternatives: (items: string[]) => string;
+  /** Country name of an ISO 3166-1 code, e.g. "PH" → "Philippines". */
+  formatCountry: (code: string) => string;
+  /** e.g. "SAR 1,200 / month". */
+  formatSalary: (salary: Salary) => string;
+  /** e.g. "32 years", computed from an ISO date of birth. */
+  formatAge: (dateOfBirth: string) => string;
+}
+
+export interface LocaleProviderProps {
+  /** BCP 47 tag, e.g. "en" or "ar-SA"; unsupported tags fall back to English. */
+  locale?: string;
+  /** Overrides for single messages, on top of the bundled catalog. */
+  messages?: Partial<Messages>;
+  children: React.ReactNode;
+}
+
+const createLocaleValue = (
+  locale: string,
+  messages?: Partial<Messages>,
+): LocaleContextValue => {
+  const t = createTranslator(locale, { ...catalogFor(locale), ...messages });
+  const regionNames = new Intl.DisplayNames([locale], { type: "region" });
+
+  return {
+    locale,
+    dir: textDirection(locale),
+    t,
+    formatNumber: (value, options) =>
+      new Intl.NumberFormat(locale, options).format(value),
+    formatDateTime: (value) =>
+      new Intl.DateTimeFormat(locale, {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        // The server and the browser must render the same text, so the time
+        // is in UTC and says so.
+        timeZone: "UTC",
+        timeZoneName: "short",
+      }).format(new Date(value)),
+    formatDate: (isoDate) =>
+      new Intl.DateTimeFormat(locale, {
+        dateStyle: "medium",
+        timeZone: "UTC",
+      }).format(new Date(isoDate)),
+    formatFileSize: (bytes) => formatFileSize(bytes, locale),
+    formatStatus: (status, fallback) => {
+      const key = `status.${status}`;
+
+      return isMessageKey(key) ? t(key) : fallback;
+    },
+    formatAlternatives: (items) =>
+      new Intl.ListFormat(locale, { type: "disjunction" }).format(items),
+    formatCountry: (code) => regionNames.of(code) ?? code,
+    formatSalary: ({ amount, currency, period }) =>
+      t("worker.salary", {
+        amount: new Intl.NumberFormat(locale, {
+          style: "currency",
+          currency,
+          maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+        }).format(amount),
+        period,
+      }),
+    formatAge: (dateOfBirth) => {
+      const age = ageOn(dateOfBirth);
+
+      return age === null
+        ? ""
+        : new Intl.NumberFormat(locale, {
+            style: "unit",
+            unit: "year",
+            unitDisplay: "long",
+          }).format(age);
+    },
+  };
+};
+
+const LocaleContext = createContext<LocaleContextValue>(
+  createLocaleValue(DEFAULT_LOCALE),
+);
+
+/** Language, direction and formatting for the medical card components. */
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({
+  locale = DEFAULT_LOCALE,
+  messages,
+  children,
+}) => {
+  const value = useMemo(
+    () => createLocaleValue(supportedLocale(locale), messages),
+    [locale, messages],
+  );
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+};
+
+export const useLocale = () => useContext(LocaleContext);
@@ -1,4 +1,6 @@
-import { tv } from "tailwind-variants";
+import type { SlotsToClasses } from "@heroui/theme";
+
+import { tv, VariantProps } from "tailwind-variants";
 
 export const title = tv({
   base: "tracking-tight inline font-semibold",
@@ -51,3 +53,232 @@ export const subtitle = tv({
     fullWidth: true,
   },
 });
+
+/** Status colors of the medical card, from the state's semantic color. */
+export const statusBadge = tv({
+  base: "px-4 py-2 inline-flex items-center gap-1 rounded-md border text-base font-medium",
+  variants: {
+    color: {
+      default: "bg-default-100 text-default-600 border-default-300",
+      primary: "bg-primary-50 text-primary-600 border-primary-200",
+      secondary: "bg-secondary-50 text-secondary-600 border-secondary-200",
+      success: "bg-success-50 text-success-600 border-success-200",
+      warning: "bg-warning-50 text-warning-700 border-warning-300",
+      danger: "bg-danger-50 text-danger-600 border-danger-200",
+    },
+  },
+  defaultVariants: {
+    color: "default",
+  },
+});
+
+/** How soon the uploaded results lapse. */
+export const expiryIndicator = tv({
+  base: "inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs font-medium",
+  variants: {
+    state: {
+      valid: "bg-default-100 text-default-600",
+      expiring: "bg-warning-50 text-warning-700",
+      expired: "bg-danger-50 text-danger-600",
+    },
+  },
+  defaultVariants: {
+    state: "valid",
+  },
+});
+
+/** The uploaded-file tile: a colored frame and a soft or solid footer. */
+export const statusPreview = tv({
+  slots: {
+    frame: "border",
+    footer: "border-t border-transparent",
+  },
+  variants: {
+    color: {
+      default: { frame: "border-default-400" },
+      primary: { frame: "border-primary" },
+      secondary: { frame: "border-secondary" },
+      success: { frame: "border-success" },
+      warning: { frame: "border-warning" },
+      danger: { frame: "border-danger" },
+    },
+    emphasis: {
+      soft: {},
+      solid: {},
+    },
+  },
+  compoundVariants: [
+    {
+      color: "default",
+      emphasis: "soft",
+      class: { footer: "bg-default-100 text-default-600" },
+    },
+    {
+      color: "primary",
+      emphasis: "soft",
+      class: { footer: "bg-primary-50 text-primary-700" },
+    },
+    {
+      color: "secondary",
+      emphasis: "soft",
+      class: { footer: "bg-secondary-50 text-secondary-700" },
+    },
+    {
+      color: "success",
+      emphasis: "soft",
+      class: { footer: "bg-success-50 text-success-700" },
+    },
+    {
+      color: "warning",
+      emphasis: "soft",
+      class: { footer: "bg-warning-50 text-warning-700" },
+    },
+    {
+      color: "danger",
+      emphasis: "soft",
+      class: { footer: "bg-danger-50 text-danger-700" },
+    },
+    {
+      color: "default",
+      emphasis: "solid",
+      class: { footer: "bg-default text-default-foreground" },
+    },
+    {
+      color: "primary",
+      emphasis: "solid",
+      class: { footer: "bg-primary text-primary-foreground" },
+    },
+    {
+      color: "secondary",
+      emphasis: "solid",
+      class: { footer: "bg-secondary text-secondary-foreground" },
+    },
+    {
+      color: "success",
+      emphasis: "solid",
+      class: { footer: "bg-success text-success-foreground" },
+    },
+    {
+      color: "warning",
+      emphasis: "solid",
+      class: { footer: "bg-warning text-warning-foreground" },
+    },
+    {
+      color: "danger",
+      emphasis: "solid",
+      class: { footer: "bg-danger text-danger-foreground" },
+    },
+  ],
+  defaultVariants: {
+    color: "default",
+    emphasis: "soft",
+  },
+});
+
+/**
+ * Layout of `MedicalCard`. Hosts restyle single parts through the card's
+ * `classNames` prop, keyed by these slots.
+ */
+export const medicalCard = tv({
+  slots: {
+    root: "w-full max-w-2xl",
+    body: "",
+    header: "flex items-center justify-between mb-4",
+    avatar: "",
+    statusBadge: "",
+    infoGrid: "grid gap-6 mb-4 grid-cols-[1fr_auto_1fr]",
+    tileHeader: "flex items-center justify-between gap-2",
+    tileTitle: "font-bold text-brand-heading leading-tight",
+    uploadZone:
+      "border-2 border-dashed text-center cursor-pointer mb-2 transition-colors flex flex-col items-center justify-center",
+    previewTile:
+      "bg-content1 flex flex-col shadow-sm overflow-hidden cursor-pointer",
+    requirementTile:
+      "bg-content1 shadow-sm border border-brand flex flex-col overflow-hidden",
+    rejectionNote: "mt-4 p-3 bg-danger-50 border border-danger-200",
+  },
+  variants: {
+    variant: {
+      bordered: { root: "border border-divider shadow-sm" },
+      shadow: { root: "border border-transparent shadow-md" },
+      flat: { root: "border border-transparent shadow-none bg-default-50" },
+    },
+    size: {
+      sm: {
+        body: "p-4",
+        avatar: "w-10 h-10",
+        statusBadge: "px-3 py-1 text-sm",
+        tileHeader: "mb-3",
+        tileTitle: "text-base",
+        uploadZone: "h-[160px]",
+        previewTile: "h-[160px]",
+        requirementTile: "h-[160px]",
+      },
+      md: {
+        body: "p-6",
+        avatar: "w-12 h-12",
+        tileHeader: "mb-4",
+        tileTitle: "text-[18px]",
+        uploadZone: "h-[200px]",
+        previewTile: "h-[200px]",
+        requirementTile: "h-[200px]",
+      },
+      lg: {
+        body: "p-8",
+        avatar: "w-14 h-14",
+        statusBadge: "px-5 py-2.5 text-lg",
+        tileHeader: "mb-5",
+        tileTitle: "text-xl",
+        uploadZone: "h-[240px]",
+        previewTile: "h-[240px]",
+        requirementTile: "h-[240px]",
+      },
+    },
+    radius: {
+      none: {
+        root: "rounded-none",
+        uploadZone: "rounded-none",
+        previewTile: "rounded-none",
+        requirementTile: "rounded-none",
+        rejectionNote: "rounded-none",
+      },
+      sm: {
+        root: "rounded-small",
+        uploadZone: "rounded-small",
+        previewTile: "rounded-small",
+        requirementTile: "rounded-small",
+        rejectionNote: "rounded-small",
+      },
+      md: {
+        root: "rounded-medium",
+        uploadZone: "rounded-medium",
+        previewTile: "rounded-medium",
+        requirementTile: "rounded-medium",
+        rejectionNote: "rounded-medium",
+      },
+      lg: {
+        root: "rounded-large",
+        uploadZone: "rounded-large",
+        previewTile: "rounded-large",
+        requirementTile: "rounded-large",
+        rejectionNote: "rounded-large",
+      },
+    },
+    isSelected: {
+      true: { root: "ring-2 ring-primary" },
+    },
+  },
+  defaultVariants: {
+    variant: "bordered",
+    size: "md",
+    radius: "lg",
+  },
+});
+
+export type MedicalCardVariantProps = VariantProps<typeof medicalCard>;
+
+export type MedicalCardSlots = keyof ReturnType<typeof medicalCard>;
+
+export type MedicalCardClassNames = SlotsToClasses<MedicalCardSlots>;
+
+export type MedicalCardStyles = ReturnType<typeof medicalCard>;
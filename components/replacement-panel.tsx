@@ -0,0 +1,89 @@
+"use client";
+
+import { Autocomplete, AutocompleteItem } from "@heroui/autocomplete";
+import { Avatar } from "@heroui/avatar";
+import { Button } from "@heroui/button";
+import { UserRoundCheck } from "lucide-react";
+import React, { useState } from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { countryFlag } from "@/lib/worker";
+import { Worker } from "@/types";
+
+export interface ReplacementPanelProps {
+  worker: Worker;
+  /** Already narrowed to the same role and destination. */
+  candidates: Worker[];
+  onReplace: (replacement: Worker) => void;
+}
+
+/** Lets the agency pick who takes over from a worker marked for replacement. */
+export const ReplacementPanel: React.FC<ReplacementPanelProps> = ({
+  worker,
+  candidates,
+  onReplace,
+}) => {
+  const { t, formatCountry, formatAge } = useLocale();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = candidates.find((candidate) => candidate.id === selectedId);
+
+  return (
+    <div className="mt-4 p-3 rounded-medium border border-default-200 bg-default-50">
+      <p className="text-sm font-semibold text-brand-heading mb-2">
+        {t("replacement.title")}
+      </p>
+      <div className="flex items-end gap-2">
+        <Autocomplete
+          className="flex-1"
+          defaultItems={candidates}
+          label={t("replacement.searchLabel")}
+          listboxProps={{
+            emptyContent: t("replacement.noCandidates", {
+              role: worker.role,
+              country: formatCountry(worker.destinationCountry),
+            }),
+          }}
+          placeholder={t("replacement.searchPlaceholder")}
+          selectedKey={selectedId}
+          size="sm"
+          onSelectionChange={(key) =>
+            setSelectedId(key === null ? null : String(key))
+          }
+        >
+          {(candidate) => (
+            <AutocompleteItem key={candidate.id} textValue={candidate.name}>
+              <div className="flex items-center gap-2">
+                <Avatar
+                  alt={candidate.name}
+                  className="shrink-0"
+                  size="sm"
+                  src={candidate.photo}
+                />
+                <div className="flex flex-col">
+                  <span className="text-small">{candidate.name}</span>
+                  <span className="text-tiny text-default-400">
+                    <span aria-hidden className="me-1">
+                      {countryFlag(candidate.nationality)}
+                    </span>
+                    {formatCountry(candidate.nationality)} ·{" "}
+                    {formatAge(candidate.dateOfBirth)}
+                  </span>
+                </div>
+              </div>
+            </AutocompleteItem>
+          )}
+        </Autocomplete>
+        <Button
+          color="primary"
+          isDisabled={!selected}
+          startContent={<UserRoundCheck size={16} />}
+          onPress={() => {
+            if (selected) onReplace(selected);
+          }}
+        >
+          {t("replacement.confirm")}
+        </Button>
+      </div>
+    </div>
+  );
+};
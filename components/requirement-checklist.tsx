@@ -0,0 +1,60 @@
+"use client";
+
+import { Checkbox, CheckboxGroup } from "@heroui/checkbox";
+import React from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { isMandatoryTest } from "@/lib/requirements";
+import { RequirementTest } from "@/types";
+
+export interface RequirementChecklistProps {
+  tests: RequirementTest[];
+  /** Ids of the tests the reviewer has confirmed. */
+  confirmed: string[];
+  onConfirmedChange: (confirmed: string[]) => void;
+  isDisabled?: boolean;
+}
+
+/** The tests a reviewer ticks off while reading the uploaded result. */
+export const RequirementChecklist: React.FC<RequirementChecklistProps> = ({
+  tests,
+  confirmed,
+  onConfirmedChange,
+  isDisabled = false,
+}) => {
+  const { t } = useLocale();
+  const mandatoryCount = tests.filter(isMandatoryTest).length;
+  const confirmedMandatoryCount = tests.filter(
+    (test) => isMandatoryTest(test) && confirmed.includes(test.id),
+  ).length;
+
+  return (
+    <CheckboxGroup
+      className="mt-4"
+      classNames={{ label: "text-sm font-semibold text-brand-heading" }}
+      description={t("checklist.progress", {
+        confirmed: confirmedMandatoryCount,
+        total: mandatoryCount,
+      })}
+      isDisabled={isDisabled}
+      label={t("checklist.title")}
+      size="sm"
+      value={confirmed}
+      onValueChange={onConfirmedChange}
+    >
+      {tests.map((test) => (
+        <Checkbox key={test.id} value={test.id}>
+          <span className="text-sm text-foreground">{test.label}</span>
+          <span className="ms-2 text-xs text-default-500">
+            {t("checklist.acceptable", { result: test.acceptableResult })}
+          </span>
+          {!isMandatoryTest(test) && (
+            <span className="ms-2 text-xs text-default-400">
+              {t("checklist.optional")}
+            </span>
+          )}
+        </Checkbox>
+      ))}
+    </CheckboxGroup>
+  );
+};
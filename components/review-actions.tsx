@@ -0,0 +1,140 @@
+"use client";
+
+import { Button } from "@heroui/button";
+import { Textarea } from "@heroui/input";
+import {
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from "@heroui/modal";
+import { Check, RefreshCw } from "lucide-react";
+import React, { useState } from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { ReviewDecision } from "@/types";
+
+export interface ReviewActionsProps {
+  reviewer: string;
+  workerName: string;
+  /** Accepting needs an uploaded result to look at. */
+  canAccept: boolean;
+  canRequestReplacement: boolean;
+  /** Shown next to Accept while something still blocks acceptance. */
+  acceptBlockedReason?: string | null;
+  /** Recorded with the decision. */
+  confirmedTests?: string[];
+  onDecision: (decision: ReviewDecision) => void;
+}
+
+export const ReviewActions: React.FC<ReviewActionsProps> = ({
+  reviewer,
+  workerName,
+  canAccept,
+  canRequestReplacement,
+  acceptBlockedReason,
+  confirmedTests = [],
+  onDecision,
+}) => {
+  const [isNoteOpen, setIsNoteOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [isNoteTouched, setIsNoteTouched] = useState(false);
+  const { t, dir } = useLocale();
+
+  const trimmedNote = note.trim();
+
+  const decide = (
+    status: ReviewDecision["status"],
+    decisionNote: string | null,
+  ) => {
+    onDecision({
+      status,
+      note: decisionNote,
+      reviewer,
+      decidedAt: new Date().toISOString(),
+      confirmedTests,
+    });
+  };
+
+  const closeNoteDialog = () => {
+    setIsNoteOpen(false);
+    setNote("");
+    setIsNoteTouched(false);
+  };
+
+  const submitReplacement = () => {
+    setIsNoteTouched(true);
+    if (!trimmedNote) return;
+    decide("replace", trimmedNote);
+    closeNoteDialog();
+  };
+
+  return (
+    <>
+      <div className="mt-4 flex items-center justify-end gap-2">
+        {acceptBlockedReason && (
+          <p className="me-auto text-xs text-warning-600">
+            {acceptBlockedReason}
+          </p>
+        )}
+        <Button
+          color="danger"
+          isDisabled={!canRequestReplacement}
+          size="sm"
+          startContent={<RefreshCw size={14} />}
+          variant="flat"
+          onPress={() => setIsNoteOpen(true)}
+        >
+          {t("review.requestReplacement")}
+        </Button>
+        <Button
+          color="success"
+          isDisabled={!canAccept || !!acceptBlockedReason}
+          size="sm"
+          startContent={<Check size={14} />}
+          onPress={() => decide("accepted", null)}
+        >
+          {t("review.accept")}
+        </Button>
+      </div>
+
+      <Modal
+        isOpen={isNoteOpen}
+        onOpenChange={(open) => {
+          if (!open) closeNoteDialog();
+        }}
+      >
+        {/* The modal is portaled out of the card, so it needs its own dir */}
+        <ModalContent dir={dir}>
+          <ModalHeader>{t("review.dialogTitle", { workerName })}</ModalHeader>
+          <ModalBody>
+            <Textarea
+              isRequired
+              errorMessage={t("review.noteRequired")}
+              isInvalid={isNoteTouched && !trimmedNote}
+              label={t("review.noteLabel")}
+              minRows={3}
+              placeholder={t("review.notePlaceholder")}
+              value={note}
+              onBlur={() => setIsNoteTouched(true)}
+              onValueChange={setNote}
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={closeNoteDialog}>
+              {t("review.cancel")}
+            </Button>
+            <Button
+              color="danger"
+              isDisabled={!trimmedNote}
+              onPress={submitReplacement}
+            >
+              {t("review.requestReplacement")}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
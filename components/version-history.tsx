@@ -0,0 +1,140 @@
+"use client";
+
+import { Button } from "@heroui/button";
+import { Spinner } from "@heroui/spinner";
+import { ChevronDown, Eye, History, RotateCcw } from "lucide-react";
+import React, { useState } from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { FileData, ResultHistory } from "@/types";
+
+export interface VersionHistoryProps {
+  history: ResultHistory | null;
+  isLoading: boolean;
+  /** Restoring is only offered when the status allows a new current file. */
+  canRestore: boolean;
+  getStatusLabel: (status: string) => string;
+  onExpand: () => void;
+  onPreview: (version: FileData) => void;
+  onRestore: (version: FileData) => void;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  history,
+  isLoading,
+  canRestore,
+  getStatusLabel,
+  onExpand,
+  onPreview,
+  onRestore,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { t, formatDateTime, formatFileSize, formatNumber } = useLocale();
+
+  const toggle = () => {
+    if (!isExpanded) onExpand();
+    setIsExpanded(!isExpanded);
+  };
+
+  return (
+    <div className="mt-4">
+      <button
+        aria-expanded={isExpanded}
+        className="flex items-center gap-1.5 text-sm font-medium text-brand-heading hover:underline"
+        type="button"
+        onClick={toggle}
+      >
+        <History size={14} />
+        <span>{t("history.title")}</span>
+        {history && history.versions.length > 0 && (
+          <span className="text-default-400">
+            ({formatNumber(history.versions.length)})
+          </span>
+        )}
+        <ChevronDown
+          className={`transition-transform ${isExpanded ? "rotate-180" : ""}`}
+          size={14}
+        />
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3">
+          {isLoading ? (
+            <Spinner size="sm" />
+          ) : !history || history.versions.length === 0 ? (
+            <p className="text-xs text-default-400">{t("history.empty")}</p>
+          ) : (
+            <ol className="relative border-s border-divider ms-1.5 space-y-4">
+              {history.versions.map((version, index) => {
+                const isCurrent = version.id === history.currentId;
+
+                return (
+                  <li key={version.id ?? index} className="ms-4">
+                    <span
+                      className={`absolute -start-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                        isCurrent ? "bg-primary" : "bg-default-300"
+                      }`}
+                    />
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p
+                          className="text-sm font-medium text-foreground truncate"
+                          title={version.name}
+                        >
+                          {version.name}
+                          {isCurrent && (
+                            <span className="ms-2 rounded bg-primary-100 px-1.5 py-0.5 text-[10px] font-semibold text-primary-700">
+                              {t("history.current")}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-default-500">
+                          {version.uploadedAt
+                            ? formatDateTime(version.uploadedAt)
+                            : t("history.unknownDate")}
+                          {" · "}
+                          {version.uploadedBy ?? t("history.unknownUploader")}
+                          {" · "}
+                          {formatFileSize(version.size)}
+                          {version.statusAtUpload &&
+                            ` · ${getStatusLabel(version.statusAtUpload)}`}
+                        </p>
+                      </div>
+                      <div className="flex flex-shrink-0 gap-1">
+                        <Button
+                          isIconOnly
+                          aria-label={t("history.previewAria", {
+                            fileName: version.name,
+                          })}
+                          size="sm"
+                          variant="light"
+                          onPress={() => onPreview(version)}
+                        >
+                          <Eye size={14} />
+                        </Button>
+                        {!isCurrent && (
+                          <Button
+                            isIconOnly
+                            aria-label={t("history.restoreAria", {
+                              fileName: version.name,
+                            })}
+                            isDisabled={!canRestore}
+                            size="sm"
+                            variant="light"
+                            onPress={() => onRestore(version)}
+                          >
+                            <RotateCcw size={14} />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+"use client";
+
+import JSZip from "jszip";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import React, { useCallback, useMemo, useRef, useState } from "react";
+
+import { requirementsCatalog } from "@/config/requirements";
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { LocaleProvider, useLocale } from "@/components/locale-provider";
+import MedicalCard from "@/components/MedicalCard";
+import { WorkerFilterBar } from "@/components/worker-filter-bar";
+import {
+  addResultsToZip,
+  BulkAction,
+  bulkRequirementTests,
+  BulkReport,
+  downloadBlob,
+  hasRequiredResults,
+  runBulk,
+  storedResults,
+  toggleSelection,
+} from "@/lib/bulk-actions";
+import { errorMessage, reportCardError } from "@/lib/card-errors";
+import {
+  canTransition,
+  defaultLifecycle,
+  getStatusDefinition,
+} from "@/lib/status-lifecycle";
+import { unambiguousLegacyKeys } from "@/lib/storage-migration";
+import {
+  moveWorkerStatus,
+  updateWorkerRecord,
+  workerProfilePath,
+} from "@/lib/worker-api";
+import {
+  applyWorkerFilters,
+  filterOptions,
+  filtersFromParams,
+  filtersToParams,
+  WorkerFilters,
+} from "@/lib/worker-filters";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportFileName,
+  exportTable,
+  toCsv,
+} from "@/lib/worker-export";
+import { Status, Worker, WorkerRecord } from "@/types";
+
+export interface WorkerDashboardProps {
+  records: WorkerRecord[];
+}
+
+const NoResults = () => {
+  const { t } = useLocale();
+
+  return (
+    <p className="py-12 text-center text-default-500">
+      {t("dashboard.noResults")}
+    </p>
+  );
+};
+
+/** The cards and filters; inside the locale so toasts are translated too. */
+const DashboardContent: React.FC<WorkerDashboardProps> = ({
+  records: initialRecords,
+}) => {
+  const { t, formatStatus } = useLocale();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = useMemo(
+    () => filtersFromParams(searchParams),
+    [searchParams],
+  );
+  const [records, setRecords] = useState(initialRecords);
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [busyAction, setBusyAction] = useState<BulkAction | null>(null);
+  const [bulkReport, setBulkReport] = useState<BulkReport | null>(null);
+
+  const options = useMemo(() => filterOptions(records), [records]);
+  const visibleRecords = applyWorkerFilters(records, filters);
+  const workers = useMemo(
+    () => records.map((record) => record.worker),
+    [records],
+  );
+  // Only the dashboard sees every worker, so it decides which name-keyed
+  // browser data can safely move to an id.
+  const legacyKeys = useMemo(() => unambiguousLegacyKeys(workers), [workers]);
+  // Bulk actions only reach the cards the current filters show.
+  const selectedRecords = visibleRecords.filter((record) =>
+    selectedIds.includes(record.worker.id),
+  );
+  const acceptTests = bulkRequirementTests(
+    selectedRecords,
+    requirementsCatalog,
+  );
+
+  const updateFilters = useCallback(
+    (changes: Partial<WorkerFilters>) => {
+      const query = filtersToParams(
+        { ...filters, ...changes },
+        searchParams.toString(),
+      ).toString();
+
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [filters, pathname, router, searchParams],
+  );
+
+  const updateRecord = useCallback(
+    (workerId: string, update: (record: WorkerRecord) => WorkerRecord) => {
+      setRecords((current) =>
+        current.map((record) =>
+          record.worker.id === workerId ? update(record) : record,
+        ),
+      );
+    },
+    [],
+  );
+
+  // The last save sent for each worker; the next one waits for it.
+  const pendingSavesRef = useRef(new Map<string, Promise<unknown>>());
+
+  /**
+   * Changes show at once; a failed save is reported but not rolled back.
+   * Saves for one worker go out in order, so an upload's files reach the
+   * server before the status move it triggers.
+   */
+  const save = useCallback(
+    (workerId: string, send: () => Promise<unknown>) => {
+      const pending = pendingSavesRef.current;
+      const request = (pending.get(workerId) ?? Promise.resolve())
+        .then(send)
+        .catch((error) => {
+          reportCardError(
+            {
+              code: "save_failed",
+              message: errorMessage(error),
+              cause: error,
+            },
+            { title: t("errorTitle.save_failed") },
+          );
+        });
+
+      pending.set(workerId, request);
+      request.then(() => {
+        if (pending.get(workerId) === request) pending.delete(workerId);
+      });
+    },
+    [t],
+  );
+
+  const selectWorker = (workerId: string, range: boolean) => {
+    setSelectedIds((current) =>
+      toggleSelection(
+        current,
+        visibleRecords.map((record) => record.worker.id),
+        workerId,
+        { anchorId: selectionAnchorRef.current, range },
+      ),
+    );
+    selectionAnchorRef.current = workerId;
+  };
+
+  /** Run one bulk action over the selected cards and report every failure. */
+  const runBulkAction = async (
+    action: BulkAction,
+    task: (record: WorkerRecord) => Promise<unknown>,
+  ) => {
+    setBusyAction(action);
+    setBulkReport(null);
+    const outcomes = await runBulk(selectedRecords, task);
+
+    setBusyAction(null);
+    setBulkReport({ action, outcomes });
+
+    return outcomes;
+  };
+
+  /** Refuse a move the lifecycle forbids before asking the server. */
+  const assertCanMove = (record: WorkerRecord, next: Status) => {
+    if (!canTransition(defaultLifecycle, record.status, next)) {
+      throw new Error(
+        t("bulk.notAllowed", {
+          status: formatStatus(
+            record.status,
+            getStatusDefinition(defaultLifecycle, record.status).label,
+          ),
+        }),
+      );
+    }
+  };
+
+  const applyMove = (updated: WorkerRecord) =>
+    updateRecord(updated.worker.id, (current) => ({
+      ...current,
+      status: updated.status,
+      rejectionNote: updated.rejectionNote,
+      statusHistory: updated.statusHistory,
+    }));
+
+  const bulkAccept = (confirmedTests: string[]) =>
+    runBulkAction("accept", async (record) => {
+      assertCanMove(record, "accepted");
+      if (!hasRequiredResults(record)) throw new Error(t("bulk.missingResult"));
+      const ownTests = bulkRequirementTests([record], requirementsCatalog);
+
+      applyMove(
+        await moveWorkerStatus(record.worker.id, "accepted", {
+          confirmedTests: confirmedTests.filter((id) =>
+            ownTests.some((test) => test.id === id),
+          ),
+        }),
+      );
+    });
+
+  const bulkRequestReplacement = (note: string) =>
+    runBulkAction("replace", async (record) => {
+      assertCanMove(record, "replace");
+      applyMove(await moveWorkerStatus(record.worker.id, "replace", { note }));
+    });
+
+  const bulkDownload = async () => {
+    const zip = new JSZip();
+    const outcomes = await runBulkAction("download", async (record) => {
+      if (storedResults(record).length === 0) {
+        throw new Error(t("bulk.noResults"));
+      }
+      await addResultsToZip(zip, record);
+    });
+
+    if (outcomes.some((outcome) => outcome.ok)) {
+      downloadBlob(
+        await zip.generateAsync({ type: "blob" }),
+        `medical-results-${new Date().toISOString().slice(0, 10)}.zip`,
+      );
+    }
+  };
+
+  /** A CSV of the selection; nothing can fail per worker, so no report. */
+  const bulkExport = () =>
+    downloadBlob(
+      new Blob([toCsv(exportTable(selectedRecords))], {
+        type: EXPORT_CONTENT_TYPES.csv,
+      }),
+      exportFileName("csv"),
+    );
+
+  const handleReplaceWorker = useCallback(
+    (oldWorker: Worker, newWorker: Worker) => {
+      [oldWorker, newWorker].forEach((worker) => {
+        updateRecord(worker.id, (record) => ({ ...record, worker }));
+        save(worker.id, () =>
+          updateWorkerRecord(worker.id, {
+            worker: {
+              replaces: worker.replaces,
+              replacedBy: worker.replacedBy,
+            },
+          }),
+        );
+      });
+    },
+    [updateRecord, save],
+  );
+
+  return (
+    <div className="py-6 flex flex-col gap-6">
+      <WorkerFilterBar
+        filters={filters}
+        isReviewMode={isReviewMode}
+        options={options}
+        resultCount={visibleRecords.length}
+        totalCount={records.length}
+        onFiltersChange={updateFilters}
+        onReviewModeChange={setIsReviewMode}
+      />
+
+      <BulkActionBar
+        acceptTests={acceptTests}
+        busyAction={busyAction}
+        report={bulkReport}
+        selectedCount={selectedRecords.length}
+        visibleCount={visibleRecords.length}
+        onAccept={bulkAccept}
+        onDismissReport={() => setBulkReport(null)}
+        onDownload={bulkDownload}
+        onExport={bulkExport}
+        onRequestReplacement={bulkRequestReplacement}
+        onSelectAll={(isSelected) => {
+          setSelectedIds(
+            isSelected ? visibleRecords.map((record) => record.worker.id) : [],
+          );
+          selectionAnchorRef.current = null;
+        }}
+      />
+
+      {visibleRecords.length === 0 && <NoResults />}
+
+      {visibleRecords.map((record) => (
+        <MedicalCard
+          key={record.worker.id}
+          defaultValue={record.files}
+          documentSlots={record.documentSlots}
+          isSelected={selectedIds.includes(record.worker.id)}
+          legacyWorkerKey={legacyKeys[record.worker.id]}
+          profileHref={workerProfilePath(record.worker.id)}
+          rejectionNote={record.rejectionNote}
+          replacementCandidates={workers}
+          reviewMode={isReviewMode}
+          status={record.status}
+          worker={record.worker}
+          onChange={(files) => {
+            // Loading from storage reports files the record may already have.
+            if (JSON.stringify(files) === JSON.stringify(record.files ?? {})) {
+              return;
+            }
+            updateRecord(record.worker.id, (current) => ({
+              ...current,
+              files,
+            }));
+            save(record.worker.id, () =>
+              updateWorkerRecord(record.worker.id, { files }),
+            );
+          }}
+          onReplaceWorker={handleReplaceWorker}
+          onReviewDecision={(decision) => {
+            updateRecord(record.worker.id, (current) => ({
+              ...current,
+              rejectionNote: decision.note,
+            }));
+            save(record.worker.id, () =>
+              moveWorkerStatus(record.worker.id, decision.status, {
+                by: decision.reviewer,
+                note: decision.note,
+                confirmedTests: decision.confirmedTests,
+              }),
+            );
+          }}
+          onSelect={({ range }) => selectWorker(record.worker.id, range)}
+          onStatusChange={(status) => {
+            updateRecord(record.worker.id, (current) => ({
+              ...current,
+              status,
+            }));
+            // Review decisions are saved with their note in onReviewDecision.
+            if (status !== "accepted" && status !== "replace") {
+              save(record.worker.id, () =>
+                moveWorkerStatus(record.worker.id, status),
+              );
+            }
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Every worker's medical card, filtered and sorted by the URL query params;
+ * `?lang=ar` shows the dashboard in Arabic. Changes are saved through the
+ * workers API.
+ */
+export const WorkerDashboard: React.FC<WorkerDashboardProps> = ({
+  records,
+}) => {
+  const searchParams = useSearchParams();
+
+  return (
+    <LocaleProvider locale={searchParams.get("lang") ?? undefined}>
+      <DashboardContent records={records} />
+    </LocaleProvider>
+  );
+};
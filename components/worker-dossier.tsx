@@ -0,0 +1,427 @@
+"use client";
+
+import { Avatar } from "@heroui/avatar";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Link } from "@heroui/link";
+import clsx from "clsx";
+import {
+  ArrowLeft,
+  CircleArrowDown,
+  CircleCheck,
+  Circle,
+  TriangleAlert,
+} from "lucide-react";
+import NextLink from "next/link";
+import React from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { statusBadge } from "@/components/primitives";
+import { isMandatoryTest, requirementTests } from "@/lib/requirements";
+import { defaultLifecycle, getStatusDefinition } from "@/lib/status-lifecycle";
+import { countryFlag } from "@/lib/worker";
+import { workerProfilePath } from "@/lib/worker-api";
+import {
+  RequirementDocument,
+  ResultHistory,
+  Status,
+  WorkerLink,
+  WorkerRecord,
+} from "@/types";
+
+/** The stored versions of one document slot. */
+export type DossierDocument = {
+  slotId: string;
+  /** Absent for the card's default result slot. */
+  label?: string;
+  required?: boolean;
+  history: ResultHistory;
+};
+
+export interface WorkerDossierProps {
+  record: WorkerRecord;
+  documents: DossierDocument[];
+  /** Null when the catalog has no entry for the worker. */
+  requirements: RequirementDocument[] | null;
+}
+
+const Section = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <Card className="border border-divider shadow-sm" radius="lg">
+    <CardHeader className="px-6 pt-5 pb-0">
+      <h2 className="text-lg font-bold text-brand-heading">{title}</h2>
+    </CardHeader>
+    <CardBody className="px-6 pb-6">{children}</CardBody>
+  </Card>
+);
+
+const Field = ({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) => (
+  <div>
+    <dt className="text-xs font-bold text-brand-heading mb-1">{label}</dt>
+    <dd className="text-sm text-default-600">{children}</dd>
+  </div>
+);
+
+/**
+ * Everything on file for one worker: profile, documents with every version,
+ * requirement checklists, the status timeline and reviewer notes.
+ */
+export const WorkerDossier: React.FC<WorkerDossierProps> = ({
+  record,
+  documents,
+  requirements,
+}) => {
+  const {
+    t,
+    dir,
+    formatStatus,
+    formatCountry,
+    formatSalary,
+    formatAge,
+    formatDate,
+    formatDateTime,
+    formatFileSize,
+  } = useLocale();
+  const { worker, status } = record;
+  const timeline = record.statusHistory ?? [];
+  const notes = timeline.filter((change) => change.note);
+  const lastAcceptance = timeline
+    .filter((change) => change.status === "accepted")
+    .pop();
+  const tests = requirementTests(requirements ?? []);
+
+  const statusLabel = (value: Status) =>
+    formatStatus(value, getStatusDefinition(defaultLifecycle, value).label);
+
+  const country = (code: string) => (
+    <>
+      <span aria-hidden className="me-1">
+        {countryFlag(code)}
+      </span>
+      {formatCountry(code)}
+    </>
+  );
+
+  const workerLink = (link: WorkerLink, key: "replaces" | "replacedBy") => (
+    <NextLink
+      className="text-primary hover:underline"
+      href={workerProfilePath(link.id)}
+    >
+      {t(`replacement.${key}`, {
+        name: link.name,
+        date: formatDateTime(link.at),
+      })}
+    </NextLink>
+  );
+
+  return (
+    <div className="py-6 flex flex-col gap-6" dir={dir}>
+      <NextLink
+        className="inline-flex items-center gap-1 text-sm text-default-500 hover:text-foreground"
+        href="/"
+      >
+        <ArrowLeft className="rtl:rotate-180" size={16} />
+        {t("dossier.back")}
+      </NextLink>
+
+      {/* Profile */}
+      <Section title={t("dossier.profile")}>
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4">
+            <Avatar
+              alt={worker.name}
+              className="w-16 h-16"
+              radius="sm"
+              src={worker.photo}
+            />
+            <div>
+              <h1 className="text-xl font-semibold text-foreground">
+                {worker.name}
+              </h1>
+              <p className="text-sm text-default-400">{worker.role}</p>
+            </div>
+          </div>
+          <span
+            className={statusBadge({
+              color: getStatusDefinition(defaultLifecycle, status).color,
+            })}
+          >
+            {statusLabel(status)}
+          </span>
+        </div>
+        <dl className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <Field label={t("dossier.dateOfBirth")}>
+            {t("dossier.dateOfBirthValue", {
+              date: formatDate(worker.dateOfBirth),
+              age: formatAge(worker.dateOfBirth),
+            })}
+          </Field>
+          <Field label={t("card.nationality")}>
+            {country(worker.nationality)}
+          </Field>
+          <Field label={t("card.currentLocation")}>
+            {country(worker.currentCountry)}
+          </Field>
+          <Field label={t("dashboard.destination")}>
+            {country(worker.destinationCountry)}
+          </Field>
+          <Field label={t("card.jobOffer")}>
+            {formatSalary(worker.salary)}
+          </Field>
+          <Field label={t("dossier.employer")}>
+            {worker.employerId ?? t("dossier.notProvided")}
+          </Field>
+          <Field label={t("dossier.passportNumber")}>
+            {worker.passportNumber ?? t("dossier.notProvided")}
+          </Field>
+          <Field label={t("dossier.visaNumber")}>
+            {worker.visaNumber ?? t("dossier.notProvided")}
+          </Field>
+          {(worker.replaces || worker.replacedBy) && (
+            <Field label={t("dossier.replacement")}>
+              <span className="flex flex-col gap-1">
+                {worker.replaces && workerLink(worker.replaces, "replaces")}
+                {worker.replacedBy &&
+                  workerLink(worker.replacedBy, "replacedBy")}
+              </span>
+            </Field>
+          )}
+        </dl>
+      </Section>
+
+      {/* Documents */}
+      <Section title={t("dossier.documents")}>
+        <div className="flex flex-col gap-6">
+          {documents.map(({ slotId, label, required, history }) => (
+            <div key={slotId}>
+              <h3 className="text-sm font-semibold text-foreground mb-2">
+                {label ?? t("card.uploadLabel")}
+                {required !== undefined && (
+                  <span className="ms-2 text-xs font-normal text-default-400">
+                    {required ? t("slot.required") : t("slot.optional")}
+                  </span>
+                )}
+              </h3>
+              {history.versions.length === 0 ? (
+                <p className="text-xs text-default-400">{t("history.empty")}</p>
+              ) : (
+                <ol className="relative border-s border-divider ms-1.5 space-y-4">
+                  {history.versions.map((version, index) => {
+                    const isCurrent = version.id === history.currentId;
+
+                    return (
+                      <li key={version.id ?? index} className="ms-4">
+                        <span
+                          className={clsx(
+                            "absolute -start-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                            isCurrent ? "bg-primary" : "bg-default-300",
+                          )}
+                        />
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p
+                              className="text-sm font-medium text-foreground truncate"
+                              title={version.name}
+                            >
+                              {version.name}
+                              {isCurrent && (
+                                <span className="ms-2 rounded bg-primary-100 px-1.5 py-0.5 text-[10px] font-semibold text-primary-700">
+                                  {t("history.current")}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-default-500">
+                              {version.uploadedAt
+                                ? formatDateTime(version.uploadedAt)
+                                : t("history.unknownDate")}
+                              {" · "}
+                              {version.uploadedBy ??
+                                t("history.unknownUploader")}
+                              {" · "}
+                              {formatFileSize(version.size)}
+                              {version.statusAtUpload &&
+                                ` · ${statusLabel(version.statusAtUpload)}`}
+                            </p>
+                          </div>
+                          {version.url && (
+                            <Link
+                              isExternal
+                              aria-label={t("slot.downloadAria", {
+                                fileName: version.name,
+                              })}
+                              className="shrink-0 text-brand"
+                              href={version.url}
+                            >
+                              <CircleArrowDown size={18} />
+                            </Link>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      {/* Requirements */}
+      <Section title={t("card.requirementLabel")}>
+        {requirements ? (
+          <div className="flex flex-col gap-4">
+            <ul className="flex flex-col gap-2">
+              {requirements.map((document, index) => (
+                <li
+                  key={`${document.downloadUrl}-${index}`}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span>{document.title}</span>
+                  <Link
+                    isExternal
+                    aria-label={t("card.downloadDocument", {
+                      title: document.title,
+                    })}
+                    className="text-brand"
+                    href={document.downloadUrl}
+                  >
+                    <CircleArrowDown size={18} />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {tests.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-foreground mb-2">
+                  {t("checklist.title")}
+                </h3>
+                {lastAcceptance && (
+                  <p className="text-xs text-default-500 mb-2">
+                    {t("dossier.checklistConfirmed", {
+                      reviewer:
+                        lastAcceptance.by ?? t("history.unknownUploader"),
+                      date: formatDateTime(lastAcceptance.at),
+                    })}
+                  </p>
+                )}
+                <ul className="flex flex-col gap-1.5">
+                  {tests.map((test) => {
+                    const isConfirmed =
+                      lastAcceptance?.confirmedTests?.includes(test.id) ??
+                      false;
+
+                    return (
+                      <li key={test.id} className="flex items-center gap-2">
+                        {isConfirmed ? (
+                          <CircleCheck
+                            aria-label={t("dossier.confirmed")}
+                            className="text-success shrink-0"
+                            size={16}
+                          />
+                        ) : (
+                          <Circle
+                            aria-label={t("dossier.notConfirmed")}
+                            className="text-default-300 shrink-0"
+                            size={16}
+                          />
+                        )}
+                        <span className="text-sm text-foreground">
+                          {test.label}
+                        </span>
+                        <span className="text-xs text-default-500">
+                          {t("checklist.acceptable", {
+                            result: test.acceptableResult,
+                          })}
+                        </span>
+                        {!isMandatoryTest(test) && (
+                          <span className="text-xs text-default-400">
+                            {t("checklist.optional")}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-warning-700">
+            <TriangleAlert className="text-warning-600" size={18} />
+            {t("card.requirementsMissing", {
+              role: worker.role,
+              country: formatCountry(worker.destinationCountry),
+            })}
+          </p>
+        )}
+      </Section>
+
+      {/* Status timeline */}
+      <Section title={t("dossier.timeline")}>
+        {timeline.length === 0 ? (
+          <p className="text-xs text-default-400">{t("dossier.noTimeline")}</p>
+        ) : (
+          <ol className="relative border-s border-divider ms-1.5 space-y-4">
+            {timeline
+              .slice()
+              .reverse()
+              .map((change, index) => (
+                <li key={`${change.at}-${index}`} className="ms-4">
+                  <span
+                    className={clsx(
+                      "absolute -start-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                      index === 0 ? "bg-primary" : "bg-default-300",
+                    )}
+                  />
+                  <p className="text-sm font-medium text-foreground">
+                    {statusLabel(change.status)}
+                  </p>
+                  <p className="text-xs text-default-500">
+                    {formatDateTime(change.at)}
+                    {change.by && ` · ${change.by}`}
+                  </p>
+                </li>
+              ))}
+          </ol>
+        )}
+      </Section>
+
+      {/* Reviewer notes */}
+      <Section title={t("dossier.notes")}>
+        {notes.length === 0 && !record.rejectionNote ? (
+          <p className="text-xs text-default-400">{t("dossier.noNotes")}</p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {notes.length === 0 && record.rejectionNote && (
+              <li className="text-sm text-foreground">
+                {record.rejectionNote}
+              </li>
+            )}
+            {notes
+              .slice()
+              .reverse()
+              .map((change, index) => (
+                <li key={`${change.at}-${index}`}>
+                  <p className="text-sm text-foreground">{change.note}</p>
+                  <p className="text-xs text-default-500">
+                    {statusLabel(change.status)} · {formatDateTime(change.at)}
+                    {change.by && ` · ${change.by}`}
+                  </p>
+                </li>
+              ))}
+          </ul>
+        )}
+      </Section>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+"use client";
+
+import { Button } from "@heroui/button";
+import {
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownTrigger,
+} from "@heroui/dropdown";
+import { Select, SelectItem } from "@heroui/select";
+import { Switch } from "@heroui/switch";
+import { FileDown, X } from "lucide-react";
+import React from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { getStatusDefinition, defaultLifecycle } from "@/lib/status-lifecycle";
+import { countryFlag } from "@/lib/worker";
+import { workersExportUrl, workersReportPath } from "@/lib/worker-api";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/worker-export";
+import {
+  emptyFilters,
+  filterOptions,
+  WORKER_SORTS,
+  WorkerFilters,
+  WorkerSort,
+} from "@/lib/worker-filters";
+
+export interface WorkerFilterBarProps {
+  filters: WorkerFilters;
+  options: ReturnType<typeof filterOptions>;
+  resultCount: number;
+  totalCount: number;
+  isReviewMode: boolean;
+  onFiltersChange: (filters: Partial<WorkerFilters>) => void;
+  onReviewModeChange: (isReviewMode: boolean) => void;
+}
+
+type Option = { key: string; label: string };
+
+/** A multiple-choice Select as React Aria expects it: keys in, keys out. */
+const MultiSelect = ({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: Option[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) => (
+  <Select
+    className="w-44"
+    items={options}
+    label={label}
+    selectedKeys={selected}
+    selectionMode="multiple"
+    size="sm"
+    onSelectionChange={(keys) =>
+      onChange(
+        keys === "all"
+          ? options.map((option) => option.key)
+          : Array.from(keys, String),
+      )
+    }
+  >
+    {(option) => <SelectItem key={option.key}>{option.label}</SelectItem>}
+  </Select>
+);
+
+export const WorkerFilterBar: React.FC<WorkerFilterBarProps> = ({
+  filters,
+  options,
+  resultCount,
+  totalCount,
+  isReviewMode,
+  onFiltersChange,
+  onReviewModeChange,
+}) => {
+  const { t, locale, formatStatus, formatCountry } = useLocale();
+  const countryOption = (code: string) => ({
+    key: code,
+    label: `${countryFlag(code)} ${formatCountry(code)}`,
+  });
+  const isFiltered =
+    filters.query.trim() !== "" ||
+    filters.statuses.length +
+      filters.roles.length +
+      filters.nationalities.length +
+      filters.destinations.length >
+      0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <MultiSelect
+          label={t("dashboard.status")}
+          options={options.statuses.map((status) => ({
+            key: status,
+            label: formatStatus(
+              status,
+              getStatusDefinition(defaultLifecycle, status).label,
+            ),
+          }))}
+          selected={filters.statuses}
+          onChange={(statuses) => onFiltersChange({ statuses })}
+        />
+        <MultiSelect
+          label={t("dashboard.role")}
+          options={options.roles.map((role) => ({ key: role, label: role }))}
+          selected={filters.roles}
+          onChange={(roles) => onFiltersChange({ roles })}
+        />
+        <MultiSelect
+          label={t("dashboard.nationality")}
+          options={options.nationalities.map(countryOption)}
+          selected={filters.nationalities}
+          onChange={(nationalities) => onFiltersChange({ nationalities })}
+        />
+        <MultiSelect
+          label={t("dashboard.destination")}
+          options={options.destinations.map(countryOption)}
+          selected={filters.destinations}
+          onChange={(destinations) => onFiltersChange({ destinations })}
+        />
+        <Select
+          className="w-48"
+          label={t("dashboard.sort")}
+          selectedKeys={filters.sort ? [filters.sort] : []}
+          size="sm"
+          onSelectionChange={(keys) => {
+            const [sort] = keys === "all" ? [] : Array.from(keys, String);
+
+            onFiltersChange({ sort: (sort as WorkerSort) ?? null });
+          }}
+        >
+          {WORKER_SORTS.map((sort) => (
+            <SelectItem key={sort}>{t(`dashboard.sort.${sort}`)}</SelectItem>
+          ))}
+        </Select>
+        {isFiltered && (
+          <Button
+            size="sm"
+            startContent={<X size={14} />}
+            variant="light"
+            onPress={() =>
+              onFiltersChange({ ...emptyFilters, sort: filters.sort })
+            }
+          >
+            {t("dashboard.clearFilters")}
+          </Button>
+        )}
+        <Switch
+          className="ms-auto"
+          isSelected={isReviewMode}
+          size="sm"
+          onValueChange={onReviewModeChange}
+        >
+          {t("dashboard.reviewMode")}
+        </Switch>
+        <Dropdown>
+          <DropdownTrigger>
+            <Button
+              size="sm"
+              startContent={<FileDown size={14} />}
+              variant="flat"
+            >
+              {t("dashboard.export")}
+            </Button>
+          </DropdownTrigger>
+          <DropdownMenu
+            aria-label={t("dashboard.export")}
+            onAction={(key) => {
+              if (key === "print") {
+                window.open(workersReportPath(filters, locale), "_blank");
+              } else {
+                // The route answers with an attachment, so the page stays put.
+                window.location.assign(
+                  workersExportUrl(key as ExportFormat, filters),
+                );
+              }
+            }}
+          >
+            {[
+              ...EXPORT_FORMATS.map((format) => (
+                <DropdownItem key={format}>
+                  {t(`dashboard.export.${format}`)}
+                </DropdownItem>
+              )),
+              <DropdownItem key="print">
+                {t("dashboard.export.print")}
+              </DropdownItem>,
+            ]}
+          </DropdownMenu>
+        </Dropdown>
+      </div>
+      <p className="text-sm text-default-500">
+        {filters.query.trim()
+          ? t("dashboard.resultsFor", {
+              count: resultCount,
+              total: totalCount,
+              query: filters.query.trim(),
+            })
+          : t("dashboard.results", { count: resultCount, total: totalCount })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+"use client";
+
+import { Button } from "@heroui/button";
+import { Printer } from "lucide-react";
+import React from "react";
+
+import { useLocale } from "@/components/locale-provider";
+import { defaultLifecycle, getStatusDefinition } from "@/lib/status-lifecycle";
+import { exportDetails } from "@/lib/worker-export";
+import { lastUploadedAt } from "@/lib/worker-filters";
+import { Status, WorkerRecord } from "@/types";
+
+export interface WorkerReportProps {
+  records: WorkerRecord[];
+  /** ISO timestamp, fixed on the server so both renders agree. */
+  generatedAt: string;
+}
+
+/**
+ * The export as a printable page: totals per status, then one row per worker.
+ * The browser lays out Arabic and saves a PDF from its print dialog.
+ */
+export const WorkerReport: React.FC<WorkerReportProps> = ({
+  records,
+  generatedAt,
+}) => {
+  const { t, dir, formatStatus, formatCountry, formatDate, formatDateTime } =
+    useLocale();
+  const statusLabel = (status: Status) =>
+    formatStatus(status, getStatusDefinition(defaultLifecycle, status).label);
+  const totals = records.reduce<Record<string, number>>((counts, record) => {
+    counts[record.status] = (counts[record.status] ?? 0) + 1;
+
+    return counts;
+  }, {});
+  const now = Date.parse(generatedAt);
+
+  return (
+    <div className="py-6 flex flex-col gap-4 print:py-0" dir={dir}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-foreground">
+            {t("report.title")}
+          </h1>
+          <p className="text-sm text-default-500">
+            {t("report.generated", {
+              date: formatDateTime(generatedAt),
+              count: records.length,
+            })}
+          </p>
+        </div>
+        <Button
+          className="print:hidden"
+          size="sm"
+          startContent={<Printer size={14} />}
+          onPress={() => window.print()}
+        >
+          {t("report.print")}
+        </Button>
+      </div>
+
+      <p className="text-sm text-default-600">
+        {Object.keys(totals)
+          .map((status) => `${statusLabel(status)}: ${totals[status]}`)
+          .join(" · ")}
+      </p>
+
+      {records.length === 0 ? (
+        <p className="py-12 text-center text-default-500">
+          {t("dashboard.noResults")}
+        </p>
+      ) : (
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr className="border-b border-divider text-start">
+              {[
+                t("report.name"),
+                t("dashboard.role"),
+                t("card.nationality"),
+                t("dashboard.status"),
+                t("report.uploaded"),
+                t("report.expires"),
+                t("review.noteLabel"),
+                t("card.requirementLabel"),
+              ].map((header) => (
+                <th key={header} className="py-2 pe-3 text-start font-bold">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record) => {
+              const { requirementTitles, expiresAt } = exportDetails(record, {
+                now,
+              });
+              const uploadedAt = lastUploadedAt(record);
+
+              return (
+                <tr
+                  key={record.worker.id}
+                  className="border-b border-divider align-top break-inside-avoid"
+                >
+                  <td className="py-1.5 pe-3">{record.worker.name}</td>
+                  <td className="py-1.5 pe-3">{record.worker.role}</td>
+                  <td className="py-1.5 pe-3">
+                    {formatCountry(record.worker.nationality)}
+                  </td>
+                  <td className="py-1.5 pe-3">{statusLabel(record.status)}</td>
+                  <td className="py-1.5 pe-3">
+                    {uploadedAt && formatDate(uploadedAt)}
+                  </td>
+                  <td className="py-1.5 pe-3">
+                    {expiresAt && formatDate(expiresAt)}
+                  </td>
+                  <td className="py-1.5 pe-3">{record.rejectionNote}</td>
+                  <td className="py-1.5 pe-3">
+                    {requirementTitles.join("; ")}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
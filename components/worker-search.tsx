@@ -0,0 +1,113 @@
+"use client";
+
+import { Input } from "@heroui/input";
+import { Kbd } from "@heroui/kbd";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import React, { useEffect, useRef, useState } from "react";
+
+import { SearchIcon } from "@/components/icons";
+import { LocaleProvider, useLocale } from "@/components/locale-provider";
+
+export interface WorkerSearchProps {
+  /** Focus the field on ⌘K / Ctrl+K; give it to one instance only. */
+  withShortcut?: boolean;
+}
+
+const DASHBOARD_PATH = "/";
+
+const SearchField: React.FC<WorkerSearchProps> = ({ withShortcut = false }) => {
+  const { t } = useLocale();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState(searchParams.get("q") ?? "");
+  const isOnDashboard = pathname === DASHBOARD_PATH;
+
+  // Follow the URL when it changes elsewhere, e.g. the back button, but keep
+  // what is being typed: the URL holds the trimmed query.
+  useEffect(() => {
+    const query = searchParams.get("q") ?? "";
+
+    setValue((current) => (current.trim() === query ? current : query));
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (!withShortcut) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [withShortcut]);
+
+  const search = (query: string) => {
+    const params = new URLSearchParams(
+      isOnDashboard ? searchParams.toString() : undefined,
+    );
+
+    if (query.trim()) params.set("q", query.trim());
+    else params.delete("q");
+
+    const queryString = params.toString();
+    const url = queryString
+      ? `${DASHBOARD_PATH}?${queryString}`
+      : DASHBOARD_PATH;
+
+    if (isOnDashboard) router.replace(url, { scroll: false });
+    else router.push(url);
+  };
+
+  return (
+    <Input
+      ref={inputRef}
+      aria-label={t("search.label")}
+      classNames={{
+        inputWrapper: "bg-default-100",
+        input: "text-sm",
+      }}
+      endContent={
+        withShortcut && (
+          <Kbd className="hidden lg:inline-block" keys={["command"]}>
+            K
+          </Kbd>
+        )
+      }
+      labelPlacement="outside"
+      placeholder={t("search.placeholder")}
+      startContent={
+        <SearchIcon className="text-base text-default-400 pointer-events-none flex-shrink-0" />
+      }
+      type="search"
+      value={value}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") search(value);
+      }}
+      onValueChange={(next) => {
+        setValue(next);
+        if (isOnDashboard) search(next);
+      }}
+    />
+  );
+};
+
+/**
+ * Finds workers by name or passport number through the dashboard's `q` param.
+ * On the dashboard it filters while typing; elsewhere Enter opens it. The
+ * navbar sits outside the pages' locale, so `?lang=` is read here too.
+ */
+export const WorkerSearch: React.FC<WorkerSearchProps> = (props) => {
+  const searchParams = useSearchParams();
+
+  return (
+    <LocaleProvider locale={searchParams.get("lang") ?? undefined}>
+      <SearchField {...props} />
+    </LocaleProvider>
+  );
+};
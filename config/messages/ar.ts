@@ -0,0 +1,189 @@
+import { Messages } from "./en";
+
+export const ar: Messages = {
+  "card.currentLocation": "الموقع الحالي",
+  "card.jobOffer": "عرض العمل",
+  "card.age": "العمر",
+  "card.nationality": "الجنسية",
+  "card.uploadLabel": "النتيجة الطبية",
+  "card.requirementLabel": "المتطلبات الطبية",
+  "card.download": "تنزيل",
+  "card.downloadDocument": "تنزيل {title}",
+  "card.requirementsMissing":
+    "لا توجد متطلبات طبية مسجلة لوظيفة {role} في {country}.",
+  "card.requiredProgress":
+    "تم رفع {uploaded, number} من أصل {total, number} من المستندات المطلوبة",
+  "card.rejectionNote": "ملاحظة الرفض:",
+  "card.uploadBlocked": "لا يمكن رفع ملف جديد أثناء الحالة «{status}».",
+  "card.noMatchingSlot": "لا يوجد مستند مطابق للملف {fileName}",
+
+  "worker.salary":
+    "{amount} / {period, select, hour {الساعة} day {اليوم} week {الأسبوع} month {الشهر} year {السنة} other {{period}}}",
+
+  "dashboard.status": "الحالة",
+  "dashboard.role": "الوظيفة",
+  "dashboard.nationality": "الجنسية",
+  "dashboard.destination": "الوجهة",
+  "dashboard.sort": "الترتيب",
+  "dashboard.sort.uploaded-desc": "الأحدث رفعًا أولًا",
+  "dashboard.sort.uploaded-asc": "الأقدم رفعًا أولًا",
+  "dashboard.sort.age-asc": "الأصغر سنًا أولًا",
+  "dashboard.sort.age-desc": "الأكبر سنًا أولًا",
+  "dashboard.clearFilters": "مسح عوامل التصفية",
+  "dashboard.reviewMode": "وضع المراجعة",
+  "dashboard.results": "{count, number} من {total, number} عامل",
+  "dashboard.resultsFor":
+    "{count, number} من {total, number} عامل يطابقون «{query}»",
+  "dashboard.export": "تصدير",
+  "dashboard.export.csv": "CSV",
+  "dashboard.export.xlsx": "Excel (XLSX)",
+  "dashboard.export.pdf": "ملخص PDF",
+  "dashboard.export.print": "ملخص للطباعة",
+  "dashboard.noResults": "لا يوجد عمال يطابقون عوامل التصفية هذه.",
+  "search.label": "البحث عن العمال",
+  "search.placeholder": "ابحث بالاسم أو رقم الجواز...",
+
+  "report.title": "الحالة الطبية للعمال",
+  "report.generated":
+    "أُنشئ في {date} · {count, plural, one {عامل واحد} two {عاملان} few {# عمال} other {# عامل}}",
+  "report.print": "طباعة أو حفظ بصيغة PDF",
+  "report.name": "الاسم",
+  "report.uploaded": "تاريخ الرفع",
+  "report.expires": "تاريخ الانتهاء",
+
+  "bulk.selectAll": "تحديد الكل",
+  "bulk.selected":
+    "{count, plural, one {تم تحديد عامل واحد} two {تم تحديد عاملين} few {تم تحديد # عمال} other {تم تحديد # عامل}}",
+  "bulk.selectWorker": "تحديد {workerName}",
+  "bulk.download": "تنزيل النتائج",
+  "bulk.export": "تصدير",
+  "bulk.acceptTitle":
+    "{count, plural, one {قبول عامل واحد} two {قبول عاملين} few {قبول # عمال} other {قبول # عامل}}",
+  "bulk.acceptHint": "ستُقبل النتائج الحالية لكل العمال المحددين.",
+  "bulk.replaceTitle":
+    "{count, plural, one {طلب استبدال عامل واحد} two {طلب استبدال عاملين} few {طلب استبدال # عمال} other {طلب استبدال # عامل}}",
+  "bulk.sharedNote": "ستُضاف هذه الملاحظة لكل العمال المحددين.",
+  "bulk.report.accept": "تم قبول {succeeded, number} من {total, number}",
+  "bulk.report.replace":
+    "تم طلب استبدال {succeeded, number} من {total, number}",
+  "bulk.report.download":
+    "تم تنزيل نتائج {succeeded, number} من {total, number}",
+  "bulk.notAllowed": "غير ممكن والحالة {status}",
+  "bulk.missingResult": "لم تُرفع النتائج المطلوبة بعد",
+  "bulk.noResults": "لا توجد نتائج محفوظة للتنزيل",
+
+  "status.awaiting_upload": "بانتظار الرفع",
+  "status.pending": "قيد الانتظار",
+  "status.under_review": "قيد المراجعة",
+  "status.accepted": "مقبول",
+  "status.file_rejected": "الملف مرفوض",
+  "status.replace": "استبدال العامل",
+  "status.expired": "منتهي الصلاحية",
+  "status.withdrawn": "منسحب",
+
+  "slot.uploaded": "تم الرفع",
+  "slot.required": "مطلوب",
+  "slot.optional": "اختياري",
+  "slot.addFiles": "إضافة ملفات",
+  "slot.dragHint": "أو اسحب الملفات لرفعها",
+  "slot.checking": "جارٍ الفحص…",
+  "slot.uploading": "جارٍ الرفع…",
+  "slot.constraints": "{types} — حتى {maxSize, number} ميغابايت",
+  "slot.uploadAria": "رفع ملف {label}",
+  "slot.downloadAria": "تنزيل {fileName}",
+  "slot.download": "تنزيل",
+  "slot.replace": "استبدال",
+  "slot.replaceAria": "استبدال {fileName}",
+  "slot.remove": "إزالة",
+  "slot.removeAria": "إزالة {fileName}",
+  "slot.dropToReplace": "أفلت الملف للاستبدال",
+  "slot.fileUnavailable":
+    "لم يعد هذا الملف متاحًا في هذا المتصفح. يرجى رفعه مرة أخرى.",
+  "slot.previewFailed": "تعذر تحميل الملف للمعاينة: {error}",
+
+  "validation.empty": "الملف فارغ.",
+  "validation.too_large":
+    "يجب أن يكون حجم الملف أقل من {maxSize, number} ميغابايت",
+  "validation.unsupported_type": "أنواع الملفات المسموح بها: {types}",
+  "validation.type_mismatch":
+    "اسم الملف يشير إلى {claimed} لكنه يحتوي على {detected}.",
+  "validation.corrupt": "الملف تالف أو غير مكتمل.",
+  "validation.password_protected": "لا يمكن مراجعة الملفات المحمية بكلمة مرور.",
+
+  "errorTitle.upload_blocked": "الرفع غير مسموح",
+  "errorTitle.upload_failed": "فشل الرفع",
+  "errorTitle.restore_failed": "فشلت الاستعادة",
+  "errorTitle.preview_failed": "فشلت المعاينة",
+  "errorTitle.remove_failed": "فشلت الإزالة",
+  "errorTitle.file_unavailable": "الملف غير متاح",
+  "errorTitle.no_matching_slot": "لا يوجد مستند مطابق",
+  "errorTitle.save_failed": "لم تُحفظ التغييرات",
+
+  "history.title": "سجل الإصدارات",
+  "history.empty": "لا توجد ملفات مرفوعة بعد.",
+  "history.current": "الحالي",
+  "history.unknownDate": "تاريخ غير معروف",
+  "history.unknownUploader": "رافع غير معروف",
+  "history.previewAria": "معاينة {fileName}",
+  "history.restoreAria": "استعادة {fileName}",
+
+  "viewer.loading": "جارٍ تحميل المستند…",
+  "viewer.passwordProtected": "ملف PDF هذا محمي بكلمة مرور.",
+  "viewer.pdfUnreadable": "تعذرت قراءة ملف PDF هذا.",
+  "viewer.unsupported":
+    "المعاينة غير متاحة لهذا النوع من الملفات. قم بتنزيله بدلاً من ذلك.",
+  "viewer.openFailed": "تعذر فتح هذا المستند.",
+  "viewer.zoomIn": "تكبير",
+  "viewer.zoomOut": "تصغير",
+  "viewer.previousPage": "الصفحة السابقة",
+  "viewer.nextPage": "الصفحة التالية",
+  "viewer.pageOf": "صفحة {page, number} من {total, number}",
+  "viewer.download": "تنزيل",
+
+  "validity.expiresIn":
+    "{days, plural, one {تنتهي الصلاحية خلال يوم واحد} two {تنتهي الصلاحية خلال يومين} few {تنتهي الصلاحية خلال # أيام} other {تنتهي الصلاحية خلال # يومًا}}",
+  "validity.expired": "انتهت الصلاحية في {date}",
+  "validity.details": "رُفع في {uploaded}، صالح حتى {expires}",
+
+  "checklist.title": "قائمة التحقق من المتطلبات",
+  "checklist.progress":
+    "تم تأكيد {confirmed, number} من {total, number} من الفحوص الإلزامية",
+  "checklist.acceptable": "المقبول: {result}",
+  "checklist.optional": "(اختياري)",
+  "checklist.incomplete":
+    "{remaining, plural, one {أكّد فحصًا إلزاميًا واحدًا آخر للقبول} two {أكّد فحصين إلزاميين آخرين للقبول} few {أكّد # فحوص إلزامية أخرى للقبول} other {أكّد # فحصًا إلزاميًا آخر للقبول}}",
+
+  "replacement.title": "اختر بديلًا",
+  "replacement.searchLabel": "المرشح",
+  "replacement.searchPlaceholder": "ابحث بالاسم",
+  "replacement.noCandidates": "لا يوجد مرشحون لوظيفة {role} في {country}",
+  "replacement.confirm": "استبدال",
+  "replacement.replaces": "بديل عن {name} منذ {date}",
+  "replacement.replacedBy": "استُبدل بـ {name} في {date}",
+
+  "dossier.back": "العودة إلى لوحة التحكم",
+  "dossier.profile": "الملف الشخصي",
+  "dossier.dateOfBirth": "تاريخ الميلاد",
+  "dossier.dateOfBirthValue": "{date} ({age})",
+  "dossier.employer": "صاحب العمل",
+  "dossier.passportNumber": "رقم جواز السفر",
+  "dossier.visaNumber": "رقم التأشيرة",
+  "dossier.replacement": "الاستبدال",
+  "dossier.notProvided": "غير متوفر",
+  "dossier.documents": "المستندات",
+  "dossier.checklistConfirmed": "أكّدها {reviewer} في {date}",
+  "dossier.confirmed": "مؤكَّد",
+  "dossier.notConfirmed": "غير مؤكَّد",
+  "dossier.timeline": "سجل الحالات",
+  "dossier.noTimeline": "لا توجد تغييرات حالة مسجلة بعد.",
+  "dossier.notes": "ملاحظات المراجعين",
+  "dossier.noNotes": "لا توجد ملاحظات مراجعين بعد.",
+
+  "review.requestReplacement": "طلب استبدال",
+  "review.accept": "قبول",
+  "review.dialogTitle": "طلب استبدال {workerName}",
+  "review.noteLabel": "ملاحظة الرفض",
+  "review.notePlaceholder": "وضّح سبب عدم قبول النتيجة الطبية",
+  "review.noteRequired": "ملاحظة الرفض مطلوبة",
+  "review.cancel": "إلغاء",
+};
@@ -0,0 +1,197 @@
+/**
+ * English messages, in ICU MessageFormat. This catalog defines the message
+ * keys; every other locale must translate all of them.
+ */
+export const en = {
+  "card.currentLocation": "Current location",
+  "card.jobOffer": "Job Offer",
+  "card.age": "Age",
+  "card.nationality": "Nationality",
+  "card.uploadLabel": "Medical Result",
+  "card.requirementLabel": "Medical Requirements",
+  "card.download": "Download",
+  "card.downloadDocument": "Download {title}",
+  "card.requirementsMissing":
+    "No medical requirements are listed for {role} in {country}.",
+  "card.requiredProgress":
+    "{uploaded, number} of {total, number} required documents uploaded",
+  "card.rejectionNote": "Rejection Note:",
+  "card.uploadBlocked":
+    'A new file cannot be uploaded while the status is "{status}".',
+  "card.noMatchingSlot": "No matching document slot for {fileName}",
+
+  "worker.salary":
+    "{amount} / {period, select, hour {hour} day {day} week {week} month {month} year {year} other {{period}}}",
+
+  "dashboard.status": "Status",
+  "dashboard.role": "Role",
+  "dashboard.nationality": "Nationality",
+  "dashboard.destination": "Destination",
+  "dashboard.sort": "Sort by",
+  "dashboard.sort.uploaded-desc": "Newest upload first",
+  "dashboard.sort.uploaded-asc": "Oldest upload first",
+  "dashboard.sort.age-asc": "Youngest first",
+  "dashboard.sort.age-desc": "Oldest first",
+  "dashboard.clearFilters": "Clear filters",
+  "dashboard.reviewMode": "Review mode",
+  "dashboard.results": "{count, number} of {total, number} workers",
+  "dashboard.resultsFor":
+    "{count, number} of {total, number} workers matching “{query}”",
+  "dashboard.export": "Export",
+  "dashboard.export.csv": "CSV",
+  "dashboard.export.xlsx": "Excel (XLSX)",
+  "dashboard.export.pdf": "PDF summary",
+  "dashboard.export.print": "Printable summary",
+  "dashboard.noResults": "No workers match these filters.",
+  "search.label": "Search workers",
+  "search.placeholder": "Search name or passport...",
+
+  "report.title": "Worker medical status",
+  "report.generated":
+    "Generated {date} · {count, plural, one {# worker} other {# workers}}",
+  "report.print": "Print or save as PDF",
+  "report.name": "Name",
+  "report.uploaded": "Uploaded",
+  "report.expires": "Expires",
+
+  "bulk.selectAll": "Select all",
+  "bulk.selected":
+    "{count, plural, one {# worker selected} other {# workers selected}}",
+  "bulk.selectWorker": "Select {workerName}",
+  "bulk.download": "Download results",
+  "bulk.export": "Export",
+  "bulk.acceptTitle":
+    "{count, plural, one {Accept # worker} other {Accept # workers}}",
+  "bulk.acceptHint":
+    "The current results of every selected worker are accepted.",
+  "bulk.replaceTitle":
+    "{count, plural, one {Request replacement for # worker} other {Request replacement for # workers}}",
+  "bulk.sharedNote": "Every selected worker gets this note.",
+  "bulk.report.accept": "Accepted {succeeded, number} of {total, number}",
+  "bulk.report.replace":
+    "Requested replacement for {succeeded, number} of {total, number}",
+  "bulk.report.download":
+    "Downloaded results of {succeeded, number} of {total, number}",
+  "bulk.notAllowed": "Not possible while the status is {status}",
+  "bulk.missingResult": "Required results are not uploaded yet",
+  "bulk.noResults": "No stored results to download",
+
+  "status.awaiting_upload": "Awaiting Upload",
+  "status.pending": "Pending",
+  "status.under_review": "Under Review",
+  "status.accepted": "Accepted",
+  "status.file_rejected": "File Rejected",
+  "status.replace": "Replace Worker",
+  "status.expired": "Expired",
+  "status.withdrawn": "Withdrawn",
+
+  "slot.uploaded": "Uploaded",
+  "slot.required": "Required",
+  "slot.optional": "Optional",
+  "slot.addFiles": "Add Files",
+  "slot.dragHint": "Or drag files to upload",
+  "slot.checking": "Checking…",
+  "slot.uploading": "Uploading…",
+  "slot.constraints": "{types} — up to {maxSize, number} MB",
+  "slot.uploadAria": "Upload {label} file",
+  "slot.downloadAria": "Download {fileName}",
+  "slot.download": "Download",
+  "slot.replace": "Replace",
+  "slot.replaceAria": "Replace {fileName}",
+  "slot.remove": "Remove",
+  "slot.removeAria": "Remove {fileName}",
+  "slot.dropToReplace": "Drop to replace",
+  "slot.fileUnavailable":
+    "This file is no longer available in this browser. Please upload it again.",
+  "slot.previewFailed": "Could not load the file for preview: {error}",
+
+  "validation.empty": "The file is empty.",
+  "validation.too_large": "File size must be less than {maxSize, number} MB",
+  "validation.unsupported_type": "Allowed file types: {types}",
+  "validation.type_mismatch":
+    "The file is named as {claimed} but contains {detected}.",
+  "validation.corrupt": "The file is damaged or incomplete.",
+  "validation.password_protected":
+    "Password-protected files cannot be reviewed.",
+
+  "errorTitle.upload_blocked": "Upload not allowed",
+  "errorTitle.upload_failed": "Upload failed",
+  "errorTitle.restore_failed": "Restore failed",
+  "errorTitle.preview_failed": "Preview failed",
+  "errorTitle.remove_failed": "Remove failed",
+  "errorTitle.file_unavailable": "File not available",
+  "errorTitle.no_matching_slot": "No matching document",
+  "errorTitle.save_failed": "Changes not saved",
+
+  "history.title": "Version history",
+  "history.empty": "No uploads yet.",
+  "history.current": "Current",
+  "history.unknownDate": "Unknown date",
+  "history.unknownUploader": "Unknown uploader",
+  "history.previewAria": "Preview {fileName}",
+  "history.restoreAria": "Restore {fileName}",
+
+  "viewer.loading": "Loading document…",
+  "viewer.passwordProtected": "This PDF is password protected.",
+  "viewer.pdfUnreadable": "This PDF could not be read.",
+  "viewer.unsupported":
+    "Preview is not available for this file type. Download it instead.",
+  "viewer.openFailed": "This document could not be opened.",
+  "viewer.zoomIn": "Zoom in",
+  "viewer.zoomOut": "Zoom out",
+  "viewer.previousPage": "Previous page",
+  "viewer.nextPage": "Next page",
+  "viewer.pageOf": "Page {page, number} of {total, number}",
+  "viewer.download": "Download",
+
+  "validity.expiresIn":
+    "{days, plural, one {Expires in # day} other {Expires in # days}}",
+  "validity.expired": "Expired on {date}",
+  "validity.details": "Uploaded {uploaded}, valid until {expires}",
+
+  "checklist.title": "Requirement checklist",
+  "checklist.progress":
+    "{confirmed, number} of {total, number} mandatory tests confirmed",
+  "checklist.acceptable": "Acceptable: {result}",
+  "checklist.optional": "(optional)",
+  "checklist.incomplete":
+    "{remaining, plural, one {Confirm # more mandatory test to accept} other {Confirm # more mandatory tests to accept}}",
+
+  "replacement.title": "Choose a replacement",
+  "replacement.searchLabel": "Candidate",
+  "replacement.searchPlaceholder": "Search by name",
+  "replacement.noCandidates": "No {role} candidates for {country}",
+  "replacement.confirm": "Replace",
+  "replacement.replaces": "Replaces {name} since {date}",
+  "replacement.replacedBy": "Replaced by {name} on {date}",
+
+  "dossier.back": "Back to dashboard",
+  "dossier.profile": "Profile",
+  "dossier.dateOfBirth": "Date of birth",
+  "dossier.dateOfBirthValue": "{date} ({age})",
+  "dossier.employer": "Employer",
+  "dossier.passportNumber": "Passport number",
+  "dossier.visaNumber": "Visa number",
+  "dossier.replacement": "Replacement",
+  "dossier.notProvided": "Not provided",
+  "dossier.documents": "Documents",
+  "dossier.checklistConfirmed": "Confirmed by {reviewer} on {date}",
+  "dossier.confirmed": "Confirmed",
+  "dossier.notConfirmed": "Not confirmed",
+  "dossier.timeline": "Status timeline",
+  "dossier.noTimeline": "No status changes recorded yet.",
+  "dossier.notes": "Reviewer notes",
+  "dossier.noNotes": "No reviewer notes yet.",
+
+  "review.requestReplacement": "Request Replacement",
+  "review.accept": "Accept",
+  "review.dialogTitle": "Request replacement for {workerName}",
+  "review.noteLabel": "Rejection note",
+  "review.notePlaceholder": "Explain why the medical result cannot be accepted",
+  "review.noteRequired": "A rejection note is required",
+  "review.cancel": "Cancel",
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
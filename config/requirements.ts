@@ -0,0 +1,93 @@
+import { RequirementsCatalog } from "@/lib/requirements";
+
+const KSA_GENERAL = {
+  title: "KSA General Medical Requirements",
+  downloadUrl: "/docs/medical-requirements.pdf",
+  validityDays: 90,
+  tests: [
+    {
+      id: "hiv",
+      label: "HIV 1/2 antibodies",
+      acceptableResult: "Non-reactive",
+    },
+    {
+      id: "hbv",
+      label: "Hepatitis B surface antigen (HBsAg)",
+      acceptableResult: "Negative",
+    },
+    {
+      id: "hcv",
+      label: "Hepatitis C antibodies",
+      acceptableResult: "Negative",
+    },
+    {
+      id: "chest-x-ray",
+      label: "Chest X-ray",
+      acceptableResult: "No signs of active tuberculosis",
+    },
+    {
+      id: "pregnancy",
+      label: "Pregnancy test (female workers)",
+      acceptableResult: "Negative",
+      mandatory: false,
+    },
+  ],
+};
+
+/** Medical requirements by destination country, job role and employer. */
+export const requirementsCatalog: RequirementsCatalog = [
+  { country: "SA", documents: [KSA_GENERAL] },
+  {
+    country: "SA",
+    role: "Driver",
+    documents: [
+      KSA_GENERAL,
+      {
+        title: "KSA Medical Requirements For Drivers",
+        downloadUrl: "/docs/medical-requirements.pdf",
+        tests: [
+          {
+            id: "visual-acuity",
+            label: "Visual acuity",
+            acceptableResult: "6/12 or better, corrected",
+          },
+          {
+            id: "colour-vision",
+            label: "Colour vision",
+            acceptableResult: "Normal",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    country: "SA",
+    role: "Nurse",
+    documents: [
+      KSA_GENERAL,
+      {
+        title: "KSA Medical Requirements For Nurses",
+        downloadUrl: "/docs/medical-requirements.pdf",
+        tests: [
+          {
+            id: "hbv-immunity",
+            label: "Hepatitis B surface antibodies (anti-HBs)",
+            acceptableResult: "≥ 10 mIU/mL",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    country: "SA",
+    role: "Technician",
+    documents: [
+      {
+        title: "KSA Medical Requirements For Technicians",
+        downloadUrl: "/docs/medical-requirements.pdf",
+        validityDays: KSA_GENERAL.validityDays,
+        tests: KSA_GENERAL.tests,
+      },
+    ],
+  },
+];
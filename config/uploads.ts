@@ -0,0 +1,25 @@
+export type UploadConfig = typeof uploadConfig;
+
+export const uploadConfig = {
+  /** Directory (absolute, or relative to the project root) for stored result files. */
+  storageDir: process.env.MEDICAL_RESULTS_DIR || ".data/medical-results",
+  maxFileSizeMB: Number(process.env.MEDICAL_RESULTS_MAX_MB) || 10,
+  allowedFileTypes: [
+    "application/pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/msword",
+  ],
+  /** Everything the server will store; document slots may allow images too. */
+  storableFileTypes: [
+    "application/pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/msword",
+    "image/jpeg",
+    "image/png",
+  ],
+  /** Limits for the in-browser IndexedDB copy of uploaded files. */
+  browserCache: {
+    maxTotalMB: 100,
+    maxAgeDays: 30,
+  },
+};
@@ -0,0 +1,120 @@
+import { Worker, WorkerRecord } from "@/types";
+
+const photo = "/images/pic.jpeg"; // same image for all workers
+
+const worker = (fields: Omit<Worker, "photo" | "destinationCountry">) => ({
+  photo,
+  destinationCountry: "SA",
+  ...fields,
+});
+
+/** Sample cases the dashboard starts from. */
+export const sampleWorkerRecords: WorkerRecord[] = [
+  {
+    worker: worker({
+      id: "w-1001",
+      name: "Ahmed Nasr Mohammed",
+      role: "Driver",
+      dateOfBirth: "1993-03-14",
+      nationality: "PH",
+      currentCountry: "PH",
+      salary: { amount: 1200, currency: "SAR", period: "month" },
+      passportNumber: "P4821937",
+    }),
+    status: "pending",
+    documentSlots: [
+      { id: "blood-test", label: "Blood Test", required: true },
+      {
+        id: "chest-x-ray",
+        label: "Chest X-Ray",
+        allowedFileTypes: ["application/pdf", "image/jpeg", "image/png"],
+        required: true,
+        keywords: ["xray", "chest"],
+      },
+      { id: "fitness", label: "Fitness Certificate" },
+    ],
+  },
+  {
+    worker: worker({
+      id: "w-1002",
+      name: "john smith",
+      role: "Lawyer",
+      dateOfBirth: "2000-08-02",
+      nationality: "PH",
+      currentCountry: "PH",
+      salary: { amount: 1200, currency: "SAR", period: "month" },
+    }),
+    status: "pending",
+  },
+  {
+    worker: worker({
+      id: "w-1003",
+      name: "Fatima Ali Hassan",
+      role: "Nurse",
+      dateOfBirth: "1997-11-25",
+      nationality: "IN",
+      currentCountry: "IN",
+      salary: { amount: 1500, currency: "SAR", period: "month" },
+      passportNumber: "T7730152",
+      visaNumber: "E102938475",
+    }),
+    status: "accepted",
+  },
+  {
+    worker: worker({
+      id: "w-1004",
+      name: "John Doe",
+      role: "Technician",
+      dateOfBirth: "1995-06-09",
+      nationality: "EG",
+      currentCountry: "EG",
+      salary: { amount: 1100, currency: "SAR", period: "month" },
+    }),
+    status: "replace",
+    rejectionNote: "Chest X-ray shows signs of an old infection.",
+  },
+  {
+    worker: worker({
+      id: "w-1005",
+      name: "Sara Abdullah",
+      role: "Nurse",
+      dateOfBirth: "1996-01-30",
+      nationality: "EG",
+      currentCountry: "EG",
+      salary: { amount: 1500, currency: "SAR", period: "month" },
+      passportNumber: "A2749184",
+    }),
+    status: "under_review",
+  },
+  {
+    worker: worker({
+      id: "w-1006",
+      name: "Mohamed Salah Ibrahim",
+      role: "Technician",
+      dateOfBirth: "1991-09-21",
+      nationality: "EG",
+      currentCountry: "EG",
+      salary: { amount: 1100, currency: "SAR", period: "month" },
+      passportNumber: "A1193305",
+    }),
+    status: "awaiting_upload",
+  },
+  {
+    worker: worker({
+      id: "w-1007",
+      name: "Ravi Kumar",
+      role: "Technician",
+      dateOfBirth: "1994-02-11",
+      nationality: "IN",
+      currentCountry: "IN",
+      salary: { amount: 1150, currency: "SAR", period: "month" },
+      passportNumber: "Z5502871",
+    }),
+    status: "awaiting_upload",
+  },
+];
+
+export const workerStoreConfig = {
+  /** JSON file (absolute, or relative to the project root) holding the worker records. */
+  dataFile: process.env.WORKERS_DATA_FILE || ".data/workers.json",
+};
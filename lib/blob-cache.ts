@@ -0,0 +1,141 @@
+import { uploadConfig } from "@/config/uploads";
+
+const DB_NAME = "medical-card";
+const DB_VERSION = 1;
+const STORE = "files";
+
+type CachedFile = {
+  key: string;
+  file: File;
+  size: number;
+  storedAt: number;
+  lastAccessedAt: number;
+};
+
+export type EvictionOptions = {
+  maxTotalBytes?: number;
+  maxAgeMs?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const defaultEviction: Required<EvictionOptions> = {
+  maxTotalBytes: uploadConfig.browserCache.maxTotalMB * 1024 * 1024,
+  maxAgeMs: uploadConfig.browserCache.maxAgeDays * DAY_MS,
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isBlobCacheAvailable = () =>
+  typeof window !== "undefined" && "indexedDB" in window;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open (e.g. private mode).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>,
+) => {
+  const db = await openDb();
+
+  return run(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+/** Store the file bytes for a key, then trim the cache back within its limits. */
+export async function putCachedFile(key: string, file: File) {
+  const now = Date.now();
+  const entry: CachedFile = {
+    key,
+    file,
+    size: file.size,
+    storedAt: now,
+    lastAccessedAt: now,
+  };
+
+  await withStore("readwrite", (store) => promisify(store.put(entry)));
+  await evictCachedFiles();
+}
+
+/** The cached file for a key, or null when it was never stored or was evicted. */
+export async function getCachedFile(key: string): Promise<File | null> {
+  return withStore("readwrite", async (store) => {
+    const entry = await promisify<CachedFile | undefined>(store.get(key));
+
+    if (!entry) return null;
+    if (Date.now() - entry.storedAt > defaultEviction.maxAgeMs) {
+      await promisify(store.delete(key));
+
+      return null;
+    }
+
+    await promisify(store.put({ ...entry, lastAccessedAt: Date.now() }));
+
+    return entry.file;
+  });
+}
+
+export async function deleteCachedFile(key: string) {
+  await withStore("readwrite", (store) => promisify(store.delete(key)));
+}
+
+/** Re-key a cached file; nothing happens when the source is missing. */
+export async function moveCachedFile(from: string, to: string) {
+  const file = await getCachedFile(from);
+
+  if (!file) return;
+  await putCachedFile(to, file);
+  await deleteCachedFile(from);
+}
+
+/**
+ * Drop entries older than `maxAgeMs`, then the least recently used ones until
+ * the cache fits in `maxTotalBytes`.
+ */
+export async function evictCachedFiles(options: EvictionOptions = {}) {
+  const { maxTotalBytes, maxAgeMs } = { ...defaultEviction, ...options };
+
+  await withStore("readwrite", async (store) => {
+    const entries = await promisify<CachedFile[]>(store.getAll());
+    const now = Date.now();
+    const expired = entries.filter((entry) => now - entry.storedAt > maxAgeMs);
+    const kept = entries
+      .filter((entry) => now - entry.storedAt <= maxAgeMs)
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    const overflow: CachedFile[] = [];
+    let total = 0;
+
+    kept.forEach((entry) => {
+      total += entry.size;
+      if (total > maxTotalBytes) overflow.push(entry);
+    });
+
+    await Promise.all(
+      expired
+        .concat(overflow)
+        .map((entry) => promisify(store.delete(entry.key))),
+    );
+  });
+}
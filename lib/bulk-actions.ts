@@ -0,0 +1,143 @@
+import JSZip from "jszip";
+
+import { areRequiredSlotsFilled, DEFAULT_SLOT_ID } from "@/lib/document-slots";
+import {
+  requirementTests,
+  resolveRequirements,
+  RequirementsCatalog,
+} from "@/lib/requirements";
+import { responseErrorMessage } from "@/lib/result-api";
+import {
+  FileData,
+  RequirementDocument,
+  RequirementTest,
+  WorkerRecord,
+} from "@/types";
+
+export type BulkAction = "accept" | "replace" | "download";
+
+/** What one bulk action did to one worker. */
+export type BulkOutcome = { workerId: string; name: string } & (
+  | { ok: true }
+  | { ok: false; error: string }
+);
+
+export type BulkReport = { action: BulkAction; outcomes: BulkOutcome[] };
+
+/**
+ * The selection after a click on `id`. A plain click toggles it; with `range`
+ * every visible id between the anchor and `id` takes the clicked card's new
+ * state, as in a mail client.
+ */
+export function toggleSelection(
+  selected: string[],
+  visibleIds: string[],
+  id: string,
+  { anchorId, range }: { anchorId: string | null; range: boolean },
+): string[] {
+  const isSelecting = !selected.includes(id);
+  const from = anchorId === null ? -1 : visibleIds.indexOf(anchorId);
+  const to = visibleIds.indexOf(id);
+  const ids =
+    range && from !== -1 && to !== -1
+      ? visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+      : [id];
+
+  return isSelecting
+    ? selected.concat(ids.filter((other) => !selected.includes(other)))
+    : selected.filter((other) => !ids.includes(other));
+}
+
+/**
+ * Run `task` for every record and collect one outcome each, so one failure
+ * never stops the rest.
+ */
+export async function runBulk(
+  records: WorkerRecord[],
+  task: (record: WorkerRecord) => Promise<unknown>,
+): Promise<BulkOutcome[]> {
+  const settled = await Promise.allSettled(records.map(task));
+
+  return settled.map((result, index) => {
+    const { id: workerId, name } = records[index].worker;
+
+    return result.status === "fulfilled"
+      ? { workerId, name, ok: true }
+      : {
+          workerId,
+          name,
+          ok: false,
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        };
+  });
+}
+
+/** Every requirement test of the records, each listed once. */
+export const bulkRequirementTests = (
+  records: WorkerRecord[],
+  catalog: RequirementsCatalog,
+): RequirementTest[] =>
+  requirementTests(
+    records.reduce<RequirementDocument[]>(
+      (documents, record) =>
+        documents.concat(resolveRequirements(catalog, record.worker) ?? []),
+      [],
+    ),
+  );
+
+/** Whether every required slot has a file; without slots the one result is required. */
+export const hasRequiredResults = ({
+  documentSlots,
+  files = {},
+}: WorkerRecord) =>
+  areRequiredSlotsFilled(
+    documentSlots ?? [{ id: DEFAULT_SLOT_ID, label: "", required: true }],
+    Object.keys(files).filter((slotId) => files[slotId]),
+  );
+
+/** The stored files of a record that can be downloaded, keyed by slot id. */
+export const storedResults = (record: WorkerRecord) =>
+  Object.entries(record.files ?? {}).filter(
+    (entry): entry is [string, FileData & { url: string }] => !!entry[1]?.url,
+  );
+
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, "_").trim();
+
+/**
+ * Fetch a record's stored results into `zip`, one folder per worker. Files of
+ * extra slots get the slot id as a prefix so names never collide.
+ */
+export async function addResultsToZip(zip: JSZip, record: WorkerRecord) {
+  const folder = zip.folder(
+    safeName(`${record.worker.name} (${record.worker.id})`),
+  )!;
+
+  await Promise.all(
+    storedResults(record).map(async ([slotId, file]) => {
+      const response = await fetch(file.url);
+
+      if (!response.ok) throw new Error(await responseErrorMessage(response));
+
+      folder.file(
+        safeName(
+          slotId === DEFAULT_SLOT_ID ? file.name : `${slotId}-${file.name}`,
+        ),
+        await response.blob(),
+      );
+    }),
+  );
+}
+
+/** Hand a generated file to the browser as a download. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = href;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(href);
+}
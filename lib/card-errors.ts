@@ -0,0 +1,55 @@
+import { addToast } from "@heroui/toast";
+
+import { FileRejectionCode } from "@/lib/file-validation";
+
+/** Why a file was refused before upload; shown inline in the slot. */
+export type UploadValidationError = {
+  code: FileRejectionCode | "validator_failed";
+  fileName: string;
+  slotId: string;
+  message: string;
+  /** Name of the custom validator that failed, for `validator_failed`. */
+  validator?: string;
+};
+
+export type CardErrorCode =
+  | "upload_blocked"
+  | "upload_failed"
+  | "restore_failed"
+  | "remove_failed"
+  | "preview_failed"
+  | "file_unavailable"
+  | "no_matching_slot"
+  | "save_failed";
+
+/** A failure outside validation; shown as a toast. */
+export type CardError = {
+  code: CardErrorCode;
+  message: string;
+  slotId?: string;
+  fileName?: string;
+  cause?: unknown;
+};
+
+/**
+ * Return `true` once the host has shown the error itself, e.g. translated,
+ * to skip the built-in toast.
+ */
+export type CardErrorHandler = (error: CardError) => boolean | void;
+
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** Hand an error to the host, then toast it unless the host handled it. */
+export function reportCardError(
+  error: CardError,
+  { title, onError }: { title: string; onError?: CardErrorHandler },
+) {
+  if (onError?.(error) === true) return;
+
+  addToast({
+    title,
+    description: error.message,
+    color: error.code === "upload_blocked" ? "warning" : "danger",
+  });
+}
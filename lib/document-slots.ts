@@ -0,0 +1,127 @@
+import { typeFromExtension } from "@/lib/file-validation";
+import { DocumentSlot } from "@/types";
+
+export type ResolvedDocumentSlot = DocumentSlot &
+  Required<Pick<DocumentSlot, "allowedFileTypes" | "maxFileSizeMB">>;
+
+/** The slot a card gets when the host does not configure `documentSlots`. */
+export const DEFAULT_SLOT_ID = "result";
+
+export type SlotLimits = Pick<
+  ResolvedDocumentSlot,
+  "allowedFileTypes" | "maxFileSizeMB"
+>;
+
+/**
+ * Fill in each slot's limits from `defaults`. With `ceiling`, e.g. what the
+ * results server stores, a slot cannot allow more than that: the card would
+ * accept a file the upload then refuses.
+ */
+export const resolveSlots = (
+  slots: DocumentSlot[],
+  defaults: SlotLimits,
+  ceiling?: SlotLimits,
+): ResolvedDocumentSlot[] =>
+  slots.map((slot) => {
+    const allowedFileTypes = slot.allowedFileTypes ?? defaults.allowedFileTypes;
+    const maxFileSizeMB = slot.maxFileSizeMB ?? defaults.maxFileSizeMB;
+
+    return {
+      ...slot,
+      allowedFileTypes: ceiling
+        ? allowedFileTypes.filter((type) =>
+            ceiling.allowedFileTypes.includes(type),
+          )
+        : allowedFileTypes,
+      maxFileSizeMB: ceiling
+        ? Math.min(maxFileSizeMB, ceiling.maxFileSizeMB)
+        : maxFileSizeMB,
+    };
+  });
+
+/** Worker keys become directory names, so anything path-like is refused. */
+export const isValidWorkerKey = (workerKey: string) =>
+  workerKey.length > 0 &&
+  workerKey.length <= 200 &&
+  !workerKey.startsWith(".") &&
+  !/[\\/\0]/.test(workerKey);
+
+/** Joins a worker key and a slot id in storage keys. */
+const SLOT_SEPARATOR = "__";
+
+/**
+ * A worker id must be a valid key without the slot separator, else worker
+ * "a" with slot "b" and a worker "a__b" would share one storage key.
+ */
+export const isValidWorkerId = (id: string) =>
+  isValidWorkerKey(id) && !id.includes(SLOT_SEPARATOR);
+
+/**
+ * Storage key for one slot of a worker. The default slot keeps the bare worker
+ * key so results uploaded before slots existed are still found.
+ */
+export const slotStorageKey = (workerKey: string, slotId: string) =>
+  slotId === DEFAULT_SLOT_ID
+    ? workerKey
+    : `${workerKey}${SLOT_SEPARATOR}${slotId}`;
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const matchesName = (slot: DocumentSlot, fileName: string) => {
+  const name = normalize(fileName);
+
+  return (slot.keywords ?? [slot.id, slot.label])
+    .map(normalize)
+    .some((keyword) => keyword.length > 0 && name.includes(keyword));
+};
+
+export type SlotRouting = {
+  assignments: { file: File; slot: ResolvedDocumentSlot }[];
+  unassigned: File[];
+};
+
+/**
+ * Decide which slot each dropped file goes to. A slot whose keywords appear in
+ * the file name wins; otherwise the first empty slot accepting the file type.
+ * Each slot takes at most one file per drop.
+ */
+export function routeFilesToSlots(
+  files: File[],
+  slots: ResolvedDocumentSlot[],
+  filledSlotIds: string[],
+): SlotRouting {
+  const taken: string[] = [];
+  const routing: SlotRouting = { assignments: [], unassigned: [] };
+
+  files.forEach((file) => {
+    const candidates = slots.filter(
+      (slot) =>
+        !taken.includes(slot.id) &&
+        slot.allowedFileTypes.includes(
+          file.type || typeFromExtension(file.name) || "",
+        ),
+    );
+    const slot =
+      candidates.find((candidate) => matchesName(candidate, file.name)) ??
+      candidates.find((candidate) => !filledSlotIds.includes(candidate.id));
+
+    if (slot) {
+      taken.push(slot.id);
+      routing.assignments.push({ file, slot });
+    } else {
+      routing.unassigned.push(file);
+    }
+  });
+
+  return routing;
+}
+
+/** True once every required slot has a file. */
+export const areRequiredSlotsFilled = (
+  slots: DocumentSlot[],
+  filledSlotIds: string[],
+) =>
+  slots
+    .filter((slot) => slot.required)
+    .every((slot) => filledSlotIds.includes(slot.id));
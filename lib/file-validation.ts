@@ -0,0 +1,222 @@
+/**
+ * Content-based file checks shared by the card and the upload route. The
+ * browser-supplied `file.type` is only a hint: the bytes decide.
+ */
+
+export const MIME = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+} as const;
+
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: MIME.pdf,
+  doc: MIME.doc,
+  docx: MIME.docx,
+  jpg: MIME.jpeg,
+  jpeg: MIME.jpeg,
+  png: MIME.png,
+  gif: MIME.gif,
+  webp: MIME.webp,
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  [MIME.pdf]: "PDF",
+  [MIME.doc]: "DOC",
+  [MIME.docx]: "DOCX",
+  [MIME.jpeg]: "JPG",
+  [MIME.png]: "PNG",
+  [MIME.gif]: "GIF",
+  [MIME.webp]: "WEBP",
+};
+
+export type FileRejectionCode =
+  | "empty"
+  | "too_large"
+  | "unsupported_type"
+  | "type_mismatch"
+  | "corrupt"
+  | "password_protected";
+
+export type FileRejection = {
+  code: FileRejectionCode;
+  fileName: string;
+  message: string;
+  /** The type found in the file's bytes, when one was recognised. */
+  detectedType?: string | null;
+};
+
+export type FileValidationResult =
+  | { ok: true; type: string }
+  | { ok: false; rejection: FileRejection };
+
+export type FileValidationOptions = {
+  allowedFileTypes: string[];
+  maxFileSizeMB: number;
+};
+
+/** Short names for MIME types, e.g. ["PDF", "DOCX"]. */
+export const fileTypeLabels = (types: string[]) =>
+  types.map((type) => TYPE_LABELS[type] ?? type);
+
+/** Human-readable list of MIME types, e.g. "PDF, DOCX". */
+export const describeFileTypes = (types: string[]) =>
+  fileTypeLabels(types).join(", ");
+
+/** Value for an `<input accept>`, with extensions for OSes that lack MIME info. */
+export const acceptAttribute = (types: string[]) =>
+  types
+    .concat(
+      Object.keys(EXTENSION_TYPES)
+        .filter((extension) => types.includes(EXTENSION_TYPES[extension]))
+        .map((extension) => `.${extension}`),
+    )
+    .join(",");
+
+const extensionOf = (name: string) =>
+  name.includes(".") ? name.slice(name.lastIndexOf(".") + 1).toLowerCase() : "";
+
+export const typeFromExtension = (name: string): string | null =>
+  EXTENSION_TYPES[extensionOf(name)] ?? null;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
+
+const utf16le = (text: string) =>
+  text
+    .split("")
+    .map((char) => `${char}\0`)
+    .join("");
+
+/** Recognise a file from its leading bytes; null when no signature matches. */
+export function sniffFileType(bytes: Uint8Array): string | null {
+  // PDF headers may follow a few bytes of junk, so look a little further in.
+  if (latin1(bytes.subarray(0, 1024)).includes("%PDF-")) return MIME.pdf;
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return MIME.doc;
+  }
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    // A DOCX is a ZIP whose entries live under word/.
+    return latin1(bytes).includes("word/") ? MIME.docx : "application/zip";
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return MIME.jpeg;
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return MIME.png;
+  }
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return MIME.gif;
+  if (
+    startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return MIME.webp;
+  }
+
+  return null;
+}
+
+/** Structural problems that make an otherwise recognised file unusable. */
+function inspectContent(
+  type: string,
+  bytes: Uint8Array,
+): Pick<FileRejection, "code" | "message"> | null {
+  if (type === MIME.pdf) {
+    const tail = latin1(bytes.subarray(Math.max(0, bytes.length - 2048)));
+
+    if (!tail.includes("%%EOF")) {
+      return {
+        code: "corrupt",
+        message: "The PDF is incomplete or damaged.",
+      };
+    }
+    // "/Encrypt" may be followed by a space, "<<" or a reference, but not
+    // by more letters as in "/EncryptMetadata".
+    if (/\/Encrypt(?![A-Za-z])/.test(latin1(bytes))) {
+      return {
+        code: "password_protected",
+        message: "Password-protected PDFs cannot be reviewed.",
+      };
+    }
+  }
+
+  // Encrypted Office files are OLE2 containers holding an EncryptedPackage.
+  if (
+    type === MIME.doc &&
+    latin1(bytes).includes(utf16le("EncryptedPackage"))
+  ) {
+    return {
+      code: "password_protected",
+      message: "Password-protected documents cannot be reviewed.",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check size, real type and integrity of a file. On success, `type` is the
+ * MIME type derived from the content, which should replace `file.type`.
+ */
+export async function validateFile(
+  file: File,
+  { allowedFileTypes, maxFileSizeMB }: FileValidationOptions,
+): Promise<FileValidationResult> {
+  const reject = (
+    code: FileRejectionCode,
+    message: string,
+    detectedType?: string | null,
+  ): FileValidationResult => ({
+    ok: false,
+    rejection: { code, fileName: file.name, message, detectedType },
+  });
+
+  if (file.size === 0) return reject("empty", "The file is empty.");
+  if (file.size > maxFileSizeMB * 1024 * 1024) {
+    return reject(
+      "too_large",
+      `File size must be less than ${maxFileSizeMB}MB`,
+    );
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const sniffed = sniffFileType(bytes);
+  const claimed = typeFromExtension(file.name);
+
+  // Unrecognised bytes: fall back to the extension, then the browser's guess.
+  const detected = sniffed ?? claimed ?? file.type;
+
+  // Every format we know has a signature, so a missing one means damage.
+  if (!sniffed && detected in TYPE_LABELS) {
+    return reject(
+      "corrupt",
+      `The file is not a valid ${describeFileTypes([detected])}.`,
+    );
+  }
+
+  if (!detected || !allowedFileTypes.includes(detected)) {
+    if (sniffed && claimed && sniffed !== claimed) {
+      return reject(
+        "type_mismatch",
+        `The file is named as ${describeFileTypes([claimed])} but contains ${describeFileTypes([sniffed])}.`,
+        sniffed,
+      );
+    }
+
+    return reject(
+      "unsupported_type",
+      `Allowed file types: ${describeFileTypes(allowedFileTypes)}`,
+      sniffed,
+    );
+  }
+
+  const problem = inspectContent(detected, bytes);
+
+  if (problem) return reject(problem.code, problem.message, detected);
+
+  return { ok: true, type: detected };
+}
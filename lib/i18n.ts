@@ -0,0 +1,72 @@
+import IntlMessageFormat, { PrimitiveType } from "intl-messageformat";
+
+import { ar } from "@/config/messages/ar";
+import { en, MessageKey, Messages } from "@/config/messages/en";
+
+export type { MessageKey, Messages };
+
+export type MessageValues = Record<string, PrimitiveType>;
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export const DEFAULT_LOCALE = "en";
+
+/** Bundled catalogs; other locales fall back to English. */
+export const catalogs: Record<string, Messages> = { en, ar };
+
+const RTL_LANGUAGES = ["ar", "fa", "he", "ur"];
+
+export const textDirection = (locale: string): "ltr" | "rtl" =>
+  RTL_LANGUAGES.includes(locale.split("-")[0].toLowerCase()) ? "rtl" : "ltr";
+
+/** The bundled catalog for a locale, by full tag first, then by language. */
+export const catalogFor = (locale: string): Messages =>
+  catalogs[locale] ?? catalogs[locale.split("-")[0]] ?? en;
+
+/**
+ * `requested` in canonical form when it is a well-formed tag for a bundled
+ * language, e.g. "ar-sa" → "ar-SA"; anything else, such as a hand-edited
+ * `?lang=`, gets the default locale.
+ */
+export function supportedLocale(requested?: string | null): string {
+  if (!requested) return DEFAULT_LOCALE;
+
+  try {
+    const [locale] = Intl.getCanonicalLocales(requested);
+
+    return catalogs[locale.split("-")[0]] ? locale : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+/** Format messages from a catalog, compiling each one once. */
+export function createTranslator(
+  locale: string,
+  messages: Messages,
+): Translate {
+  const compiled: Partial<Record<MessageKey, IntlMessageFormat>> = {};
+
+  return (key, values) => {
+    if (!compiled[key]) {
+      compiled[key] = new IntlMessageFormat(messages[key], locale);
+    }
+
+    return String(compiled[key]!.format(values));
+  };
+}
+
+/** e.g. "350 KB" or "1.2 MB", with the locale's digits and unit names. */
+export function formatFileSize(bytes: number, locale: string) {
+  const isMegabytes = bytes >= 1024 * 1024;
+
+  return new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit: isMegabytes ? "megabyte" : "kilobyte",
+    maximumFractionDigits: isMegabytes ? 1 : 0,
+  }).format(
+    isMegabytes ? bytes / (1024 * 1024) : Math.max(1, Math.round(bytes / 1024)),
+  );
+}
@@ -0,0 +1,12 @@
+/** Open a PDF with pdf.js in the browser, for the viewer and page checks. */
+export const loadPdf = async (data: Uint8Array) => {
+  const pdfjs = await import("pdfjs-dist");
+
+  // The worker is bundled with the app, so rendering never leaves the origin.
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url,
+  ).toString();
+
+  return pdfjs.getDocument({ data, isEvalSupported: false }).promise;
+};
@@ -0,0 +1,73 @@
+import { isSameRole } from "@/lib/worker";
+import { RequirementDocument, RequirementTest, Worker } from "@/types";
+
+/**
+ * The requirement documents for one destination country, narrowed by job role
+ * and employer when given. An entry without `role` covers every role.
+ */
+export type RequirementsEntry = {
+  /** ISO 3166-1 alpha-2 code of the destination country. */
+  country: string;
+  role?: string;
+  employerId?: string;
+  documents: RequirementDocument[];
+};
+
+export type RequirementsCatalog = RequirementsEntry[];
+
+export type RequirementsQuery = Pick<
+  Worker,
+  "destinationCountry" | "role" | "employerId"
+>;
+
+/** Employer beats role, and role beats a country-wide entry. */
+const specificity = (entry: RequirementsEntry) =>
+  (entry.employerId ? 2 : 0) + (entry.role ? 1 : 0);
+
+/**
+ * The documents of the most specific catalog entry matching the worker's
+ * destination, role and employer; null when the catalog has no entry for them.
+ */
+export function resolveRequirements(
+  catalog: RequirementsCatalog,
+  { destinationCountry, role, employerId }: RequirementsQuery,
+): RequirementDocument[] | null {
+  const country = destinationCountry.toUpperCase();
+  const matches = catalog.filter(
+    (entry) =>
+      entry.country.toUpperCase() === country &&
+      (!entry.role || isSameRole(entry.role, role)) &&
+      (!entry.employerId || entry.employerId === employerId),
+  );
+
+  if (!matches.length) return null;
+
+  return matches.reduce((best, entry) =>
+    specificity(entry) > specificity(best) ? entry : best,
+  ).documents;
+}
+
+/** The tests of all documents, in order, each listed once. */
+export const requirementTests = (
+  documents: RequirementDocument[],
+): RequirementTest[] =>
+  documents
+    .reduce<
+      RequirementTest[]
+    >((tests, document) => tests.concat(document.tests ?? []), [])
+    .filter(
+      (test, index, tests) =>
+        tests.findIndex((other) => other.id === test.id) === index,
+    );
+
+export const isMandatoryTest = (test: RequirementTest) =>
+  test.mandatory !== false;
+
+/** Mandatory tests the reviewer has not confirmed yet. */
+export const unconfirmedMandatoryTests = (
+  tests: RequirementTest[],
+  confirmedIds: string[],
+) =>
+  tests.filter(
+    (test) => isMandatoryTest(test) && !confirmedIds.includes(test.id),
+  );
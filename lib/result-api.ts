@@ -0,0 +1,91 @@
+import { FileData, ResultHistory } from "@/types";
+
+const workerUrl = (endpoint: string, workerKey: string) =>
+  `${endpoint}/${encodeURIComponent(workerKey)}`;
+
+/** The `error` of a JSON error body, else the status text. */
+export const responseErrorMessage = async (response: Response) => {
+  try {
+    const body = await response.json();
+
+    return body?.error ?? response.statusText;
+  } catch {
+    return response.statusText;
+  }
+};
+
+/** Latest stored result for a worker, or null when nothing was uploaded yet. */
+export async function fetchResult(
+  endpoint: string,
+  workerKey: string,
+): Promise<FileData | null> {
+  const response = await fetch(workerUrl(endpoint, workerKey), {
+    cache: "no-store",
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(await responseErrorMessage(response));
+
+  return response.json();
+}
+
+/** Every uploaded version of a worker's result and which one is current. */
+export async function fetchHistory(
+  endpoint: string,
+  workerKey: string,
+): Promise<ResultHistory> {
+  const response = await fetch(`${workerUrl(endpoint, workerKey)}/versions`, {
+    cache: "no-store",
+  });
+
+  if (!response.ok) throw new Error(await responseErrorMessage(response));
+
+  return response.json();
+}
+
+export async function uploadResult(
+  endpoint: string,
+  workerKey: string,
+  file: File,
+  details: Pick<FileData, "uploadedBy" | "statusAtUpload"> = {},
+): Promise<FileData> {
+  const body = new FormData();
+
+  body.append("file", file);
+  if (details.uploadedBy) body.append("uploadedBy", details.uploadedBy);
+  if (details.statusAtUpload) body.append("status", details.statusAtUpload);
+
+  const response = await fetch(workerUrl(endpoint, workerKey), {
+    method: "POST",
+    body,
+  });
+
+  if (!response.ok) throw new Error(await responseErrorMessage(response));
+
+  return response.json();
+}
+
+/** Make an earlier version the current result again. */
+export async function restoreVersion(
+  endpoint: string,
+  workerKey: string,
+  versionId: string,
+): Promise<FileData> {
+  const response = await fetch(
+    `${workerUrl(endpoint, workerKey)}/${encodeURIComponent(versionId)}/restore`,
+    { method: "POST" },
+  );
+
+  if (!response.ok) throw new Error(await responseErrorMessage(response));
+
+  return response.json();
+}
+
+/** Remove the current result; earlier versions can still be restored. */
+export async function clearResult(endpoint: string, workerKey: string) {
+  const response = await fetch(workerUrl(endpoint, workerKey), {
+    method: "DELETE",
+  });
+
+  if (!response.ok) throw new Error(await responseErrorMessage(response));
+}
@@ -0,0 +1,49 @@
+import { FileData, ResultHistory } from "@/types";
+
+/** localStorage key of the current file's metadata. */
+export const localResultKey = (workerKey: string) =>
+  `medical_result_${workerKey}`;
+
+/** Browser-only version history, used when no results endpoint is configured. */
+export const localHistoryKey = (workerKey: string) =>
+  `medical_result_versions_${workerKey}`;
+
+/** IndexedDB key for the bytes of one version. */
+export const versionCacheKey = (workerKey: string, versionId: string) =>
+  `${workerKey}:${versionId}`;
+
+export const createLocalVersionId = () =>
+  `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function loadLocalHistory(workerKey: string): ResultHistory {
+  try {
+    const saved = JSON.parse(
+      localStorage.getItem(localHistoryKey(workerKey)) ?? "",
+    );
+
+    if (saved && Array.isArray(saved.versions)) return saved;
+  } catch {
+    // Missing or corrupt: start a fresh history.
+  }
+
+  return { currentId: null, versions: [] };
+}
+
+export function saveLocalHistory(workerKey: string, history: ResultHistory) {
+  try {
+    localStorage.setItem(localHistoryKey(workerKey), JSON.stringify(history));
+  } catch (error) {
+    console.warn("Failed to save version history:", error);
+  }
+}
+
+/** History with a new upload added on top and marked current. */
+export const addVersion = (
+  history: ResultHistory,
+  version: FileData,
+): ResultHistory => ({
+  currentId: version.id ?? null,
+  versions: [version].concat(
+    history.versions.filter((existing) => existing.id !== version.id),
+  ),
+});
@@ -0,0 +1,172 @@
+import { createHash, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { uploadConfig } from "@/config/uploads";
+import { FileData, ResultHistory } from "@/types";
+
+type StoredResult = Required<Pick<FileData, "id" | "uploadedAt">> &
+  Omit<FileData, "url">;
+
+const storageRoot = path.resolve(process.cwd(), uploadConfig.storageDir);
+
+const isValidFileId = (fileId: string) => /^[0-9a-f-]{36}$/.test(fileId);
+
+const workerDir = (workerKey: string) => path.join(storageRoot, workerKey);
+
+/**
+ * Holds the id of the version marked current; absent means "newest" and empty
+ * means the current file was removed.
+ */
+const currentPointer = (workerKey: string) =>
+  path.join(workerDir(workerKey), "CURRENT");
+
+const toFileData = (workerKey: string, stored: StoredResult): FileData => ({
+  ...stored,
+  url: `/api/medical-results/${encodeURIComponent(workerKey)}/${stored.id}`,
+});
+
+const readMetadata = async (
+  workerKey: string,
+  fileId: string,
+): Promise<StoredResult | null> => {
+  try {
+    const raw = await fs.readFile(
+      path.join(workerDir(workerKey), `${fileId}.json`),
+      "utf8",
+    );
+
+    return JSON.parse(raw) as StoredResult;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Persist an uploaded file and its metadata under the worker's directory and
+ * make it the current version. Earlier versions are kept.
+ */
+export async function saveResult(
+  workerKey: string,
+  file: File,
+  details: Pick<FileData, "uploadedBy" | "statusAtUpload"> = {},
+): Promise<FileData> {
+  const dir = workerDir(workerKey);
+  const content = new Uint8Array(await file.arrayBuffer());
+  const stored: StoredResult = {
+    id: randomUUID(),
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    uploadedAt: new Date().toISOString(),
+    sha256: createHash("sha256").update(content).digest("hex"),
+    ...details,
+  };
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${stored.id}.bin`), content);
+  await fs.writeFile(
+    path.join(dir, `${stored.id}.json`),
+    JSON.stringify(stored),
+  );
+  await fs.writeFile(currentPointer(workerKey), stored.id);
+
+  return toFileData(workerKey, stored);
+}
+
+/** Every stored result for a worker, newest first. */
+export async function listResults(workerKey: string): Promise<FileData[]> {
+  let entries: string[];
+
+  try {
+    entries = await fs.readdir(workerDir(workerKey));
+  } catch {
+    return [];
+  }
+
+  const results = await Promise.all(
+    entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => readMetadata(workerKey, entry.slice(0, -5))),
+  );
+
+  return results
+    .filter((result): result is StoredResult => result !== null)
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))
+    .map((result) => toFileData(workerKey, result));
+}
+
+/** Every version plus which one is current. */
+export async function getResultHistory(
+  workerKey: string,
+): Promise<ResultHistory> {
+  const versions = await listResults(workerKey);
+  let currentId: string | null = null;
+
+  try {
+    currentId = (await fs.readFile(currentPointer(workerKey), "utf8")).trim();
+  } catch {
+    // No pointer yet: the newest version is current.
+  }
+  if (currentId === "") return { currentId: null, versions };
+  if (!versions.some((version) => version.id === currentId)) {
+    currentId = versions[0]?.id ?? null;
+  }
+
+  return { currentId, versions };
+}
+
+export async function getCurrentResult(
+  workerKey: string,
+): Promise<FileData | null> {
+  const { currentId, versions } = await getResultHistory(workerKey);
+
+  return versions.find((version) => version.id === currentId) ?? null;
+}
+
+/** Make an earlier version current again; null when it does not exist. */
+export async function restoreResult(
+  workerKey: string,
+  fileId: string,
+): Promise<FileData | null> {
+  if (!isValidFileId(fileId)) return null;
+
+  const stored = await readMetadata(workerKey, fileId);
+
+  if (!stored) return null;
+
+  await fs.writeFile(currentPointer(workerKey), fileId);
+
+  return toFileData(workerKey, stored);
+}
+
+/** Leave the worker without a current file; every version stays restorable. */
+export async function clearCurrentResult(workerKey: string) {
+  try {
+    await fs.writeFile(currentPointer(workerKey), "");
+  } catch {
+    // Nothing was ever uploaded, so there is nothing to clear.
+  }
+}
+
+/** Metadata plus raw bytes of a stored file, or null when it does not exist. */
+export async function readResultFile(
+  workerKey: string,
+  fileId: string,
+): Promise<{ file: FileData; content: Buffer } | null> {
+  if (!isValidFileId(fileId)) return null;
+
+  const stored = await readMetadata(workerKey, fileId);
+
+  if (!stored) return null;
+
+  try {
+    const content = await fs.readFile(
+      path.join(workerDir(workerKey), `${fileId}.bin`),
+    );
+
+    return { file: toFileData(workerKey, stored), content };
+  } catch {
+    return null;
+  }
+}
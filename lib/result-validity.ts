@@ -0,0 +1,69 @@
+import { FileData, RequirementDocument } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ValidityState = "valid" | "expiring" | "expired";
+
+export type ResultValidity = {
+  /** The slot whose file lapses first. */
+  slotId: string;
+  uploadedAt: string;
+  expiresAt: string;
+  /** Whole days until expiry; zero or less once expired. */
+  daysLeft: number;
+  state: ValidityState;
+};
+
+/** The shortest validity of the requirement documents, if any sets one. */
+export const validityDaysFor = (documents: RequirementDocument[]) =>
+  documents.reduce<number | null>(
+    (days, document) =>
+      document.validityDays === undefined
+        ? days
+        : Math.min(days ?? Infinity, document.validityDays),
+    null,
+  );
+
+/**
+ * When the card's results lapse: the earliest expiry among the given slot
+ * files, counted from each file's upload. Null without a validity period or
+ * without dated files.
+ */
+export function resultValidity(
+  files: Record<string, FileData | null | undefined>,
+  validityDays: number | null,
+  warningDays: number,
+  now = Date.now(),
+): ResultValidity | null {
+  if (validityDays === null) return null;
+
+  let earliest: ResultValidity | null = null;
+
+  for (const slotId of Object.keys(files)) {
+    const uploadedAt = files[slotId]?.uploadedAt;
+    const uploaded = uploadedAt ? Date.parse(uploadedAt) : NaN;
+
+    if (!uploadedAt || Number.isNaN(uploaded)) continue;
+
+    const expires = uploaded + validityDays * DAY_MS;
+
+    if (earliest && Date.parse(earliest.expiresAt) <= expires) continue;
+
+    const daysLeft = Math.ceil((expires - now) / DAY_MS);
+
+    earliest = {
+      slotId,
+      uploadedAt,
+      expiresAt: new Date(expires).toISOString(),
+      daysLeft,
+      state:
+        expires <= now
+          ? "expired"
+          : daysLeft <= warningDays
+            ? "expiring"
+            : "valid",
+    };
+  }
+
+  return earliest;
+}
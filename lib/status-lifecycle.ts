@@ -0,0 +1,182 @@
+import type { ComponentType } from "react";
+
+import { CustomReplaceIcon } from "@/components/icons";
+import { BuiltInStatus, Status } from "@/types";
+
+/** HeroUI semantic color a state is drawn in; see `statusBadge` for the mapping. */
+export type StatusColor =
+  | "default"
+  | "primary"
+  | "secondary"
+  | "success"
+  | "warning"
+  | "danger";
+
+export type StatusDefinition = {
+  label: string;
+  color: StatusColor;
+  /** Decided states get a solid preview footer; the rest a soft tint. */
+  emphasis?: "soft" | "solid";
+  icon?: ComponentType<{ size?: number }>;
+  /** States this one may move to. An empty list makes it terminal. */
+  transitions: Status[];
+};
+
+export type StatusLifecycle = Record<Status, StatusDefinition>;
+
+/** An extra state registered by a host, plus the states allowed to enter it. */
+export type CustomStatusDefinition = StatusDefinition & { from?: Status[] };
+
+export class IllegalStatusTransitionError extends Error {
+  constructor(
+    public readonly from: Status,
+    public readonly to: Status,
+  ) {
+    super(`Status cannot change from "${from}" to "${to}"`);
+    this.name = "IllegalStatusTransitionError";
+  }
+}
+
+export const defaultLifecycle: Record<BuiltInStatus, StatusDefinition> = {
+  awaiting_upload: {
+    label: "Awaiting Upload",
+    color: "default",
+    transitions: ["pending", "withdrawn"],
+  },
+  pending: {
+    label: "Pending",
+    color: "warning",
+    transitions: [
+      "pending",
+      "under_review",
+      "accepted",
+      "file_rejected",
+      "replace",
+      "withdrawn",
+    ],
+  },
+  under_review: {
+    label: "Under Review",
+    color: "primary",
+    transitions: ["accepted", "file_rejected", "replace", "withdrawn"],
+  },
+  accepted: {
+    label: "Accepted",
+    color: "success",
+    emphasis: "solid",
+    transitions: ["expired", "withdrawn"],
+  },
+  file_rejected: {
+    label: "File Rejected",
+    color: "warning",
+    emphasis: "solid",
+    transitions: ["pending", "replace", "withdrawn"],
+  },
+  replace: {
+    label: "Replace Worker",
+    color: "danger",
+    emphasis: "solid",
+    icon: CustomReplaceIcon,
+    transitions: ["withdrawn"],
+  },
+  expired: {
+    label: "Expired",
+    color: "default",
+    transitions: ["pending", "replace", "withdrawn"],
+  },
+  withdrawn: {
+    label: "Withdrawn",
+    color: "default",
+    transitions: [],
+  },
+};
+
+/** Used for a status the lifecycle does not know, so the card still renders. */
+export const unknownStatusDefinition = (status: Status): StatusDefinition => ({
+  label: status,
+  color: "default",
+  transitions: [],
+});
+
+/**
+ * Whether `value` is a state of `lifecycle`. Own keys only: a status such as
+ * "constructor" must not find `Object.prototype`.
+ */
+export const hasStatus = (
+  lifecycle: StatusLifecycle,
+  value: unknown,
+): value is Status =>
+  typeof value === "string" && Object.hasOwn(lifecycle, value);
+
+/** Throws when any transition points at a state the lifecycle does not define. */
+export function validateLifecycle(lifecycle: StatusLifecycle) {
+  const problems = Object.keys(lifecycle).flatMap((from) =>
+    lifecycle[from].transitions
+      .filter((to) => !hasStatus(lifecycle, to))
+      .map((to) => `"${from}" → unknown state "${to}"`),
+  );
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid status lifecycle: ${problems.join(", ")}`);
+  }
+
+  return lifecycle;
+}
+
+/**
+ * Register host-specific states on top of a lifecycle. Each custom state lists
+ * where it may go next (`transitions`) and which states may enter it (`from`).
+ */
+export function extendLifecycle(
+  base: StatusLifecycle,
+  states: Record<string, CustomStatusDefinition>,
+): StatusLifecycle {
+  const lifecycle: StatusLifecycle = { ...base };
+
+  Object.keys(states).forEach((status) => {
+    const { from = [], ...definition } = states[status];
+
+    lifecycle[status] = definition;
+    from.forEach((source) => {
+      const sourceDefinition = hasStatus(lifecycle, source)
+        ? lifecycle[source]
+        : undefined;
+
+      if (!sourceDefinition) {
+        throw new Error(
+          `Cannot register "${status}": unknown source state "${source}"`,
+        );
+      }
+      lifecycle[source] = {
+        ...sourceDefinition,
+        transitions: sourceDefinition.transitions.concat(status),
+      };
+    });
+  });
+
+  return validateLifecycle(lifecycle);
+}
+
+export const getStatusDefinition = (
+  lifecycle: StatusLifecycle,
+  status: Status,
+) =>
+  hasStatus(lifecycle, status)
+    ? lifecycle[status]
+    : unknownStatusDefinition(status);
+
+export const canTransition = (
+  lifecycle: StatusLifecycle,
+  from: Status,
+  to: Status,
+) => hasStatus(lifecycle, from) && lifecycle[from].transitions.includes(to);
+
+export function assertTransition(
+  lifecycle: StatusLifecycle,
+  from: Status,
+  to: Status,
+) {
+  if (!canTransition(lifecycle, from, to)) {
+    throw new IllegalStatusTransitionError(from, to);
+  }
+}
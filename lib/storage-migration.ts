@@ -0,0 +1,97 @@
+import { isBlobCacheAvailable, moveCachedFile } from "@/lib/blob-cache";
+import {
+  localHistoryKey,
+  localResultKey,
+  versionCacheKey,
+} from "@/lib/result-history";
+import { FileData, ResultHistory, Worker } from "@/types";
+
+/** The key cards derived from the display name before workers had ids. */
+export const legacyWorkerKey = (name: string) => name.replace(/\s+/g, "_");
+
+/**
+ * Each worker's name-derived key, by worker id, for the workers whose key no
+ * other worker shares. Data under a shared key could belong to any of them,
+ * so it stays where it is.
+ */
+export function unambiguousLegacyKeys(
+  workers: Pick<Worker, "id" | "name">[],
+): Record<string, string> {
+  const counts: Record<string, number> = {};
+
+  workers.forEach(({ name }) => {
+    const key = legacyWorkerKey(name);
+
+    counts[key] = (counts[key] ?? 0) + 1;
+  });
+
+  return Object.fromEntries(
+    workers
+      .map(({ id, name }) => [id, legacyWorkerKey(name)])
+      .filter(([, key]) => counts[key] === 1),
+  );
+}
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+/** Move one entry unless the target already has data, which always wins. */
+const moveEntry = (from: string, to: string) => {
+  const value = localStorage.getItem(from);
+
+  if (value === null || localStorage.getItem(to) !== null) return false;
+
+  localStorage.setItem(to, value);
+  localStorage.removeItem(from);
+
+  return true;
+};
+
+/**
+ * Move a slot's browser storage from its old name-derived key to the id-based
+ * one: the current file, the local history and the cached bytes. `from` must
+ * belong to this worker alone; see `unambiguousLegacyKeys`.
+ * Files on a results server stay under the old key; the slot shows the moved
+ * browser entry until the next upload saves one under the new key.
+ */
+export function migrateStorageKey(from: string, to: string) {
+  if (from === to || typeof window === "undefined") return;
+
+  let moved: boolean[];
+
+  try {
+    moved = [localResultKey, localHistoryKey].map((key) =>
+      moveEntry(key(from), key(to)),
+    );
+  } catch (error) {
+    console.warn("Failed to migrate stored results:", error);
+
+    return;
+  }
+
+  if (!moved.some(Boolean) || !isBlobCacheAvailable()) return;
+
+  const current = readJson<FileData>(localResultKey(to));
+  const history = readJson<ResultHistory>(localHistoryKey(to));
+  const versionIds = (history?.versions ?? [])
+    .concat(current ?? [])
+    .map((version) => version.id)
+    .filter(
+      (id, index, ids): id is string => !!id && ids.indexOf(id) === index,
+    );
+
+  Promise.all(
+    [moveCachedFile(from, to)].concat(
+      versionIds.map((id) =>
+        moveCachedFile(versionCacheKey(from, id), versionCacheKey(to, id)),
+      ),
+    ),
+  ).catch((error) => {
+    console.warn("Failed to migrate cached files:", error);
+  });
+}
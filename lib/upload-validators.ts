@@ -0,0 +1,134 @@
+import { MIME, sniffFileType } from "@/lib/file-validation";
+import { loadPdf } from "@/lib/pdf-document";
+import { DocumentSlot, FileData } from "@/types";
+
+export type UploadValidationContext = {
+  slot: DocumentSlot;
+  /** Earlier uploads to the same slot, newest first; loaded on demand. */
+  previousVersions: () => Promise<FileData[]>;
+};
+
+/** What a validator returns: a failure message, or nothing when the file passes. */
+export type UploadValidatorResult = string | null | undefined | void;
+
+export type UploadValidator = {
+  name: string;
+  validate: (
+    file: File,
+    context: UploadValidationContext,
+  ) => UploadValidatorResult | Promise<UploadValidatorResult>;
+};
+
+export type UploadValidationFailure = {
+  validator: string;
+  message: string;
+};
+
+/**
+ * Run every validator in order and collect all failures, so the user can fix
+ * everything in one go. A validator that throws counts as a failure.
+ */
+export async function runValidators(
+  file: File,
+  validators: UploadValidator[],
+  context: UploadValidationContext,
+): Promise<UploadValidationFailure[]> {
+  const failures: UploadValidationFailure[] = [];
+
+  for (const validator of validators) {
+    try {
+      const message = await validator.validate(file, context);
+
+      if (message) failures.push({ validator: validator.name, message });
+    } catch (error) {
+      failures.push({
+        validator: validator.name,
+        message: `Could not check the file: ${
+          error instanceof Error ? error.message : error
+        }`,
+      });
+    }
+  }
+
+  return failures;
+}
+
+/** Hex SHA-256 of a file's content. */
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer(),
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Reject PDFs with more pages than `limit`; other types pass. The bytes decide
+ * what is a PDF, and pdf.js reads the page tree, so incremental updates and
+ * compressed object streams are counted correctly.
+ */
+export const maxPdfPages = (limit: number): UploadValidator => ({
+  name: "Page count",
+  validate: async (file) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (sniffFileType(bytes) !== MIME.pdf) return null;
+
+    const document = await loadPdf(bytes);
+    const pages = document.numPages;
+
+    await document.destroy();
+
+    return pages > limit
+      ? `The document has ${pages} pages; at most ${limit} are allowed.`
+      : null;
+  },
+});
+
+/** Reject a file identical to one already uploaded to the same slot. */
+export const rejectDuplicateUploads = (): UploadValidator => ({
+  name: "Duplicate check",
+  validate: async (file, { previousVersions }) => {
+    const [hash, versions] = await Promise.all([
+      hashFile(file),
+      previousVersions(),
+    ]);
+    const duplicate = versions.find((version) => version.sha256 === hash);
+
+    return duplicate
+      ? `This file was already uploaded as "${duplicate.name}".`
+      : null;
+  },
+});
+
+/**
+ * Send the file to a scanner service, e.g. a local route wrapping ClamAV. The
+ * endpoint receives the file as multipart `file` and answers
+ * `{ clean: boolean, threat?: string }`.
+ */
+export const scanWithService = (
+  endpoint: string,
+  name = "Virus scan",
+): UploadValidator => ({
+  name,
+  validate: async (file) => {
+    const body = new FormData();
+
+    body.append("file", file);
+
+    const response = await fetch(endpoint, { method: "POST", body });
+
+    if (!response.ok) throw new Error(response.statusText);
+
+    const result: { clean: boolean; threat?: string } = await response.json();
+
+    return result.clean
+      ? null
+      : `The file was flagged by the virus scanner${
+          result.threat ? ` (${result.threat})` : ""
+        }.`;
+  },
+});
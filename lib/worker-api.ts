@@ -0,0 +1,69 @@
+import { responseErrorMessage } from "@/lib/result-api";
+import { ExportFormat } from "@/lib/worker-export";
+import { filtersToParams, WorkerFilters } from "@/lib/worker-filters";
+import { Status, StatusChange, Worker, WorkerRecord } from "@/types";
+
+export const WORKERS_ENDPOINT = "/api/workers";
+
+const recordUrl = (id: string) =>
+  `${WORKERS_ENDPOINT}/${encodeURIComponent(id)}`;
+
+const sendJson = async <T>(
+  url: string,
+  method: string,
+  body: unknown,
+): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) throw new Error(await responseErrorMessage(response));
+
+  return response.json();
+};
+
+export type WorkerRecordChanges = Partial<
+  Pick<WorkerRecord, "rejectionNote" | "files" | "documentSlots">
+> & { worker?: Partial<Worker> };
+
+/** Save changes to a worker record; the status moves through `moveWorkerStatus`. */
+export const updateWorkerRecord = (id: string, changes: WorkerRecordChanges) =>
+  sendJson<WorkerRecord>(recordUrl(id), "PATCH", changes);
+
+/** Move a worker to another status; a `note` is required for `replace`. */
+export const moveWorkerStatus = (
+  id: string,
+  status: Status,
+  details: Pick<StatusChange, "by" | "note" | "confirmedTests"> = {},
+) =>
+  sendJson<WorkerRecord>(`${recordUrl(id)}/status`, "POST", {
+    status,
+    ...details,
+  });
+
+/** Where a worker's dossier lives, for links in the app, emails and chats. */
+export const workerProfilePath = (id: string) =>
+  `/workers/${encodeURIComponent(id)}`;
+
+/** Download URL for the records matching `filters` in an export format. */
+export const workersExportUrl = (
+  format: ExportFormat,
+  filters: WorkerFilters,
+) => {
+  const params = filtersToParams(filters);
+
+  params.set("format", format);
+
+  return `${WORKERS_ENDPOINT}/export?${params}`;
+};
+
+/** The printable summary of the records matching `filters`, in `locale`. */
+export const workersReportPath = (filters: WorkerFilters, locale: string) => {
+  const params = filtersToParams(filters);
+
+  params.set("lang", locale);
+
+  return `/reports/workers?${params}`;
+};
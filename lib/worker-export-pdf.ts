@@ -0,0 +1,264 @@
+import path from "node:path";
+
+import PDFDocument from "pdfkit";
+
+import { ExportTable } from "@/lib/worker-export";
+
+/** Noto Sans Arabic covers Arabic and Latin, so names print in either. */
+const FONT_DIR = path.resolve(
+  process.cwd(),
+  "node_modules/@expo-google-fonts/noto-sans-arabic",
+);
+const FONTS = {
+  regular: path.join(FONT_DIR, "400Regular/NotoSansArabic_400Regular.ttf"),
+  bold: path.join(FONT_DIR, "700Bold/NotoSansArabic_700Bold.ttf"),
+};
+
+/** Columns of the printed summary, with their width in points. */
+const PDF_COLUMNS: [header: string, width: number][] = [
+  ["Name", 130],
+  ["Role", 80],
+  ["Nationality", 70],
+  ["Status", 90],
+  ["Uploaded", 60],
+  ["Expires", 60],
+  ["Rejection note", 280],
+];
+
+const PAGE_MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+const MAX_CELL_LINES = 4;
+
+type Direction = "ltr" | "rtl";
+type Run = { text: string; direction: Direction | null };
+
+const RTL_CHARACTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+// Letters and digits of the left-to-right scripts a name is likely to use.
+const LTR_CHARACTER =
+  /[0-9A-Za-z\u00C0-\u02AF\u0370-\u052F\u0900-\u0DFF\u1E00-\u1FFF\u3040-\u9FFF\uAC00-\uD7AF]/;
+
+const directionOf = (character: string): Direction | null =>
+  RTL_CHARACTER.test(character)
+    ? "rtl"
+    : LTR_CHARACTER.test(character)
+      ? "ltr"
+      : null;
+
+/** The direction of the first strong character, as a paragraph's base. */
+const baseDirection = (text: string): Direction =>
+  Array.from(text).map(directionOf).find(Boolean) ?? "ltr";
+
+/**
+ * Split a line into runs of one direction, in visual order. Spaces and
+ * punctuation join the runs around them when both go the same way, else the
+ * line's base direction. This covers a name or note in one script with some
+ * words or numbers in another; pdfkit only shapes each run.
+ */
+function visualRuns(line: string, base: Direction): Run[] {
+  const runs: Run[] = [];
+
+  Array.from(line).forEach((character) => {
+    const direction = directionOf(character);
+    const last = runs[runs.length - 1];
+
+    if (last && last.direction === direction) last.text += character;
+    else runs.push({ text: character, direction });
+  });
+
+  const resolved = runs.map((run, index) => {
+    if (run.direction) return run;
+    const before = runs[index - 1]?.direction;
+    const after = runs[index + 1]?.direction;
+
+    return {
+      text: run.text,
+      direction: before && before === after ? before : base,
+    };
+  });
+  const merged = resolved.reduce<Run[]>((result, run) => {
+    const last = result[result.length - 1];
+
+    if (last && last.direction === run.direction) last.text += run.text;
+    else result.push({ ...run });
+
+    return result;
+  }, []);
+
+  return base === "rtl" ? merged.reverse() : merged;
+}
+
+/** Break `text` into lines of at most `width`, cutting words that do not fit. */
+function wrap(doc: PDFKit.PDFDocument, text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (doc.widthOfString(candidate) <= width) {
+        line = candidate;
+
+        return;
+      }
+      if (line) lines.push(line);
+      line = "";
+      Array.from(word).forEach((character) => {
+        if (line && doc.widthOfString(line + character) > width) {
+          lines.push(line);
+          line = "";
+        }
+        line += character;
+      });
+    });
+  if (line) lines.push(line);
+
+  if (lines.length <= MAX_CELL_LINES) return lines;
+
+  return lines
+    .slice(0, MAX_CELL_LINES - 1)
+    .concat(`${lines[MAX_CELL_LINES - 1]}…`);
+}
+
+/** Draw one line in a column, right-aligned when its text is right-to-left. */
+function drawLine(
+  doc: PDFKit.PDFDocument,
+  line: string,
+  x: number,
+  y: number,
+  width: number,
+) {
+  const base = baseDirection(line);
+  const runs = visualRuns(line, base);
+  const lineWidth = runs.reduce(
+    (sum, run) => sum + doc.widthOfString(run.text),
+    0,
+  );
+  let cursor = base === "rtl" ? x + width - lineWidth : x;
+
+  runs.forEach((run) => {
+    doc.text(run.text, cursor, y, { lineBreak: false });
+    cursor += doc.widthOfString(run.text);
+  });
+}
+
+/**
+ * A printable summary: totals per status, then one row per worker with the
+ * columns a reviewer scans for. Arabic text is shaped and laid out right to
+ * left; dates print as YYYY-MM-DD.
+ */
+export function toPdf(
+  { headers, rows }: ExportTable,
+  { title = "Worker medical status", generatedAt = new Date() } = {},
+): Promise<Uint8Array> {
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: PAGE_MARGIN,
+    info: { Title: title },
+  });
+  const chunks: Uint8Array[] = [];
+  const done = new Promise<Uint8Array>((resolve, reject) => {
+    doc.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+    doc.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    doc.on("error", reject);
+  });
+
+  doc.registerFont("regular", FONTS.regular);
+  doc.registerFont("bold", FONTS.bold);
+
+  const column = (header: string) => headers.indexOf(header);
+  const statusColumn = column("Status");
+  const totals = rows.reduce<Record<string, number>>((counts, row) => {
+    counts[row[statusColumn]] = (counts[row[statusColumn]] ?? 0) + 1;
+
+    return counts;
+  }, {});
+  const bottom = doc.page.height - PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  const drawRow = (cells: string[], font: "regular" | "bold") => {
+    doc.font(font).fontSize(FONT_SIZE);
+    const lines = cells.map((cell, index) =>
+      wrap(doc, cell, PDF_COLUMNS[index][1] - CELL_PADDING),
+    );
+    const height =
+      Math.max(1, ...lines.map((cellLines) => cellLines.length)) * LINE_HEIGHT +
+      CELL_PADDING;
+
+    if (y + height > bottom) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+      if (font === "regular") drawHeader();
+      doc.font(font).fontSize(FONT_SIZE);
+    }
+
+    let x = PAGE_MARGIN;
+
+    lines.forEach((cellLines, index) => {
+      const width = PDF_COLUMNS[index][1] - CELL_PADDING;
+
+      cellLines.forEach((line, lineIndex) => {
+        drawLine(doc, line, x, y + lineIndex * LINE_HEIGHT, width);
+      });
+      x += PDF_COLUMNS[index][1];
+    });
+    y += height;
+    doc
+      .moveTo(PAGE_MARGIN, y - CELL_PADDING / 2)
+      .lineTo(doc.page.width - PAGE_MARGIN, y - CELL_PADDING / 2)
+      .lineWidth(font === "bold" ? 0.8 : 0.3)
+      .strokeColor("#999999")
+      .stroke();
+  };
+  const drawHeader = () =>
+    drawRow(
+      PDF_COLUMNS.map(([header]) => header),
+      "bold",
+    );
+
+  doc.font("bold").fontSize(14);
+  drawLine(doc, title, PAGE_MARGIN, y, doc.page.width);
+  y += 22;
+  doc.font("regular").fontSize(FONT_SIZE + 1);
+  drawLine(
+    doc,
+    `Generated ${generatedAt.toISOString().slice(0, 16).replace("T", " ")} UTC, ${rows.length} workers`,
+    PAGE_MARGIN,
+    y,
+    doc.page.width,
+  );
+  y += LINE_HEIGHT + 2;
+  drawLine(
+    doc,
+    Object.keys(totals)
+      .map((status) => `${status}: ${totals[status]}`)
+      .join("   "),
+    PAGE_MARGIN,
+    y,
+    doc.page.width,
+  );
+  y += LINE_HEIGHT * 2;
+
+  drawHeader();
+  rows.forEach((row) =>
+    drawRow(
+      PDF_COLUMNS.map(([header]) => {
+        const value = row[column(header)] ?? "";
+
+        return header === "Uploaded" || header === "Expires"
+          ? value.slice(0, 10)
+          : value;
+      }),
+      "regular",
+    ),
+  );
+
+  doc.end();
+
+  return done;
+}
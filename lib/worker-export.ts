@@ -0,0 +1,221 @@
+import JSZip from "jszip";
+
+import { requirementsCatalog } from "@/config/requirements";
+import { resolveRequirements, RequirementsCatalog } from "@/lib/requirements";
+import { resultValidity, validityDaysFor } from "@/lib/result-validity";
+import { defaultLifecycle, getStatusDefinition } from "@/lib/status-lifecycle";
+import { lastUploadedAt } from "@/lib/worker-filters";
+import { WorkerRecord } from "@/types";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+/** What the cards show, flattened to text; one row per worker. */
+export type ExportTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+type Column = {
+  header: string;
+  value: (record: WorkerRecord, details: ExportDetails) => string | undefined;
+};
+
+/** What a row needs beyond the record itself. */
+export type ExportDetails = {
+  requirementTitles: string[];
+  expiresAt?: string;
+};
+
+const COLUMNS: Column[] = [
+  { header: "ID", value: ({ worker }) => worker.id },
+  { header: "Name", value: ({ worker }) => worker.name },
+  { header: "Role", value: ({ worker }) => worker.role },
+  { header: "Date of birth", value: ({ worker }) => worker.dateOfBirth },
+  { header: "Nationality", value: ({ worker }) => worker.nationality },
+  { header: "Current country", value: ({ worker }) => worker.currentCountry },
+  { header: "Destination", value: ({ worker }) => worker.destinationCountry },
+  { header: "Employer", value: ({ worker }) => worker.employerId },
+  {
+    header: "Salary",
+    value: ({ worker: { salary } }) =>
+      `${salary.amount} ${salary.currency} / ${salary.period}`,
+  },
+  { header: "Passport number", value: ({ worker }) => worker.passportNumber },
+  { header: "Visa number", value: ({ worker }) => worker.visaNumber },
+  {
+    header: "Status",
+    value: ({ status }) => getStatusDefinition(defaultLifecycle, status).label,
+  },
+  { header: "Uploaded", value: (record) => lastUploadedAt(record) ?? "" },
+  { header: "Expires", value: (_, { expiresAt }) => expiresAt },
+  {
+    header: "Rejection note",
+    value: ({ rejectionNote }) => rejectionNote ?? "",
+  },
+  {
+    header: "Requirements",
+    value: (_, { requirementTitles }) => requirementTitles.join("; "),
+  },
+];
+
+type ExportOptions = { catalog?: RequirementsCatalog; now?: number };
+
+/** Requirement titles and result expiry, resolved the way the card does. */
+export function exportDetails(
+  record: WorkerRecord,
+  { catalog = requirementsCatalog, now = Date.now() }: ExportOptions = {},
+): ExportDetails {
+  const documents = resolveRequirements(catalog, record.worker) ?? [];
+
+  return {
+    requirementTitles: documents.map((document) => document.title),
+    expiresAt: resultValidity(
+      record.files ?? {},
+      validityDaysFor(documents),
+      0,
+      now,
+    )?.expiresAt,
+  };
+}
+
+/** The export rows for `records`, in their order. */
+export function exportTable(
+  records: WorkerRecord[],
+  options: ExportOptions = {},
+): ExportTable {
+  return {
+    headers: COLUMNS.map((column) => column.header),
+    rows: records.map((record) => {
+      const details = exportDetails(record, options);
+
+      return COLUMNS.map((column) => column.value(record, details) ?? "");
+    }),
+  };
+}
+
+/**
+ * Quote a cell when it holds a separator, quote or line break (RFC 4180).
+ * Names and notes are user input, so a cell that a spreadsheet would run as a
+ * formula gets a leading apostrophe.
+ */
+const csvCell = (value: string) => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CRLF line endings and a BOM, so spreadsheets read UTF-8 names correctly. */
+export const toCsv = ({ headers, rows }: ExportTable) =>
+  "\uFEFF" +
+  [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+const xmlText = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab and line breaks are invalid XML.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+/** A1-style column letters: 0 → A, 25 → Z, 26 → AA. */
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * A single-sheet workbook with inline strings, the smallest XLSX that Excel,
+ * Numbers and LibreOffice all open without repair.
+ */
+export async function toXlsx({
+  headers,
+  rows,
+}: ExportTable): Promise<Uint8Array> {
+  const sheetRows = [headers, ...rows]
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row
+          .map(
+            (cell, columnIndex) =>
+              `<c r="${columnName(columnIndex)}${rowIndex + 1}" t="inlineStr"${
+                rowIndex === 0 ? ' s="1"' : ""
+              }><is><t xml:space="preserve">${xmlText(cell)}</t></is></c>`,
+          )
+          .join("")}</row>`,
+    )
+    .join("");
+  const zip = new JSZip();
+
+  zip.file(
+    "[Content_Types].xml",
+    XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      "</Types>",
+  );
+  zip.file(
+    "_rels/.rels",
+    XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+  );
+  zip.file(
+    "xl/workbook.xml",
+    XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Workers" sheetId="1" r:id="rId1"/></sheets>' +
+      "</workbook>",
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      "</Relationships>",
+  );
+  // Style 1 makes the header row bold.
+  zip.file(
+    "xl/styles.xml",
+    XML_HEADER +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      "</styleSheet>",
+  );
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    XML_HEADER +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      "</worksheet>",
+  );
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+/** e.g. "workers-2026-10-19.xlsx" */
+export const exportFileName = (format: ExportFormat, date = new Date()) =>
+  `workers-${date.toISOString().slice(0, 10)}.${format}`;
@@ -0,0 +1,195 @@
+/**
+ * Dashboard filtering and sorting, and its round trip through URL query
+ * params so a filtered view can be shared as a link.
+ */
+
+import { ageOn } from "@/lib/worker";
+import { Status, WorkerRecord } from "@/types";
+
+export const WORKER_SORTS = [
+  "uploaded-desc",
+  "uploaded-asc",
+  "age-asc",
+  "age-desc",
+] as const;
+
+export type WorkerSort = (typeof WORKER_SORTS)[number];
+
+export type WorkerFilters = {
+  /** Matches the name, or the start of the passport number. */
+  query: string;
+  statuses: Status[];
+  roles: string[];
+  /** ISO 3166-1 codes. */
+  nationalities: string[];
+  destinations: string[];
+  sort: WorkerSort | null;
+};
+
+export const emptyFilters: WorkerFilters = {
+  query: "",
+  statuses: [],
+  roles: [],
+  nationalities: [],
+  destinations: [],
+  sort: null,
+};
+
+type ListFilter = Exclude<keyof WorkerFilters, "query" | "sort">;
+
+/** Query param of each list filter; values are comma-separated. */
+const LIST_PARAMS: Record<ListFilter, string> = {
+  statuses: "status",
+  roles: "role",
+  nationalities: "nationality",
+  destinations: "destination",
+};
+
+const LIST_FILTERS = Object.keys(LIST_PARAMS) as ListFilter[];
+
+type ReadableParams = { get(name: string): string | null };
+
+export function filtersFromParams(params: ReadableParams): WorkerFilters {
+  const sort = params.get("sort");
+  const filters: WorkerFilters = {
+    ...emptyFilters,
+    query: params.get("q") ?? "",
+    sort: WORKER_SORTS.includes(sort as WorkerSort)
+      ? (sort as WorkerSort)
+      : null,
+  };
+
+  LIST_FILTERS.forEach((key) => {
+    filters[key] = (params.get(LIST_PARAMS[key]) ?? "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+  });
+
+  return filters;
+}
+
+/**
+ * Only set filters become params, so the default view has a bare URL. Params
+ * of `base` that are not filters, e.g. the language, are kept.
+ */
+export function filtersToParams(filters: WorkerFilters, base?: string) {
+  const params = new URLSearchParams(base);
+
+  ["q", "sort"]
+    .concat(LIST_FILTERS.map((key) => LIST_PARAMS[key]))
+    .forEach((name) => params.delete(name));
+
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  LIST_FILTERS.forEach((key) => {
+    if (filters[key].length)
+      params.set(LIST_PARAMS[key], filters[key].join(","));
+  });
+  if (filters.sort) params.set("sort", filters.sort);
+
+  return params;
+}
+
+/** Lower-cased, without accents, so "jose" finds "José". */
+const fold = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+const compactDocumentNumber = (value: string) =>
+  value.replace(/[\s-]/g, "").toUpperCase();
+
+export const matchesQuery = ({ worker }: WorkerRecord, query: string) => {
+  const trimmed = query.trim();
+
+  if (!trimmed) return true;
+
+  const passport = compactDocumentNumber(trimmed);
+
+  return (
+    fold(worker.name).includes(fold(trimmed)) ||
+    (!!worker.passportNumber &&
+      passport.length > 0 &&
+      compactDocumentNumber(worker.passportNumber).startsWith(passport))
+  );
+};
+
+/** When the newest file of the record was uploaded, or null if none is dated. */
+export const lastUploadedAt = (record: WorkerRecord) =>
+  Object.keys(record.files ?? {}).reduce<string | null>((latest, slotId) => {
+    const uploadedAt = record.files?.[slotId]?.uploadedAt;
+
+    return uploadedAt && (!latest || uploadedAt > latest) ? uploadedAt : latest;
+  }, null);
+
+const sameCode = (a: string, b: string) => a.toUpperCase() === b.toUpperCase();
+
+const includesCode = (codes: string[], code: string) =>
+  !codes.length || codes.some((selected) => sameCode(selected, code));
+
+/** Records without a value for the sort key go last in either direction. */
+const compareNullable = (
+  a: number | null,
+  b: number | null,
+  direction: 1 | -1,
+) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+
+  return (a - b) * direction;
+};
+
+const sortValue = (record: WorkerRecord, sort: WorkerSort) => {
+  if (sort.startsWith("age")) return ageOn(record.worker.dateOfBirth);
+
+  const uploadedAt = lastUploadedAt(record);
+
+  return uploadedAt ? Date.parse(uploadedAt) : null;
+};
+
+export function applyWorkerFilters(
+  records: WorkerRecord[],
+  filters: WorkerFilters,
+): WorkerRecord[] {
+  const matching = records.filter(
+    (record) =>
+      matchesQuery(record, filters.query) &&
+      (!filters.statuses.length || filters.statuses.includes(record.status)) &&
+      (!filters.roles.length ||
+        filters.roles.some(
+          (role) => fold(role) === fold(record.worker.role.trim()),
+        )) &&
+      includesCode(filters.nationalities, record.worker.nationality) &&
+      includesCode(filters.destinations, record.worker.destinationCountry),
+  );
+  const { sort } = filters;
+
+  if (!sort) return matching;
+
+  const direction = sort.endsWith("desc") ? -1 : 1;
+
+  return matching
+    .map((record, index) => ({ record, index, value: sortValue(record, sort) }))
+    .sort(
+      (a, b) =>
+        compareNullable(a.value, b.value, direction) || a.index - b.index,
+    )
+    .map(({ record }) => record);
+}
+
+/** The distinct values each filter can take, in first-seen order. */
+export function filterOptions(records: WorkerRecord[]) {
+  const distinct = (values: string[]) =>
+    values.filter((value, index) => values.indexOf(value) === index);
+
+  return {
+    statuses: distinct(records.map((record) => record.status)),
+    roles: distinct(records.map((record) => record.worker.role.trim())),
+    nationalities: distinct(
+      records.map((record) => record.worker.nationality.toUpperCase()),
+    ),
+    destinations: distinct(
+      records.map((record) => record.worker.destinationCountry.toUpperCase()),
+    ),
+  };
+}
@@ -0,0 +1,171 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { sampleWorkerRecords, workerStoreConfig } from "@/config/workers";
+import {
+  applyWorkerFilters,
+  emptyFilters,
+  WorkerFilters,
+} from "@/lib/worker-filters";
+import { WorkerRecord } from "@/types";
+
+/**
+ * Persistence for worker records. Implementations only store and fetch;
+ * filtering and paging happen in `listWorkers`, so a new backend (e.g. SQLite)
+ * needs nothing but these five methods.
+ */
+export interface WorkerRepository {
+  all(): Promise<WorkerRecord[]>;
+  get(id: string): Promise<WorkerRecord | null>;
+  /** Null when a record with the same worker id exists. */
+  create(record: WorkerRecord): Promise<WorkerRecord | null>;
+  /**
+   * Replace a record with `change(current)`, inside the write queue so nothing
+   * commits in between; null when there is none. Returning `current` itself
+   * leaves the stored record untouched.
+   */
+  update(
+    id: string,
+    change: (record: WorkerRecord) => WorkerRecord,
+  ): Promise<WorkerRecord | null>;
+  /** False when there was nothing to delete. */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Keeps every record in one JSON file, seeded with the sample records when the
+ * file does not exist yet. Writes go through a queue and replace the file
+ * atomically, so concurrent requests never interleave.
+ */
+export function createJsonWorkerRepository(
+  filePath: string,
+  seed: WorkerRecord[] = [],
+): WorkerRepository {
+  const file = path.resolve(process.cwd(), filePath);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<WorkerRecord[]> => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as WorkerRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return seed;
+      throw error;
+    }
+  };
+
+  const write = async (records: WorkerRecord[]) => {
+    const temp = `${file}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(records, null, 2));
+    await fs.rename(temp, file);
+  };
+
+  /** Run read-modify-write steps one at a time. */
+  const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+
+    queue = result.catch(() => undefined);
+
+    return result;
+  };
+
+  const indexOf = (records: WorkerRecord[], id: string) =>
+    records.findIndex((record) => record.worker.id === id);
+
+  return {
+    all: () => serialized(read),
+    get: (id) =>
+      serialized(async () => {
+        const records = await read();
+
+        return records[indexOf(records, id)] ?? null;
+      }),
+    create: (record) =>
+      serialized(async () => {
+        const records = await read();
+
+        if (indexOf(records, record.worker.id) !== -1) return null;
+        await write(records.concat(record));
+
+        return record;
+      }),
+    update: (id, change) =>
+      serialized(async () => {
+        const records = await read();
+        const index = indexOf(records, id);
+
+        if (index === -1) return null;
+
+        const updated = change(records[index]);
+
+        if (updated === records[index]) return updated;
+        await write(
+          records.map((record, i) => (i === index ? updated : record)),
+        );
+
+        return updated;
+      }),
+    delete: (id) =>
+      serialized(async () => {
+        const records = await read();
+        const index = indexOf(records, id);
+
+        if (index === -1) return false;
+        await write(records.filter((_, i) => i !== index));
+
+        return true;
+      }),
+  };
+}
+
+// Routes are bundled separately, so share one instance (and write queue).
+const shared = globalThis as { workerRepository?: WorkerRepository };
+
+/** The repository the API routes and pages use; JSON-file backed by default. */
+export function getWorkerRepository(): WorkerRepository {
+  if (!shared.workerRepository) {
+    shared.workerRepository = createJsonWorkerRepository(
+      workerStoreConfig.dataFile,
+      sampleWorkerRecords,
+    );
+  }
+
+  return shared.workerRepository;
+}
+
+/** Swap the backend, e.g. for a database-backed implementation. */
+export function setWorkerRepository(next: WorkerRepository) {
+  shared.workerRepository = next;
+}
+
+export type WorkerPage = {
+  items: WorkerRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/** One page of the records matching the dashboard filters, 1-based. */
+export async function listWorkers(
+  repo: WorkerRepository,
+  {
+    filters = emptyFilters,
+    page = 1,
+    pageSize = DEFAULT_PAGE_SIZE,
+  }: { filters?: WorkerFilters; page?: number; pageSize?: number } = {},
+): Promise<WorkerPage> {
+  const matching = applyWorkerFilters(await repo.all(), filters);
+  const size = Math.min(Math.max(1, Math.floor(pageSize)), MAX_PAGE_SIZE);
+  const current = Math.max(1, Math.floor(page));
+
+  return {
+    items: matching.slice((current - 1) * size, current * size),
+    total: matching.length,
+    page: current,
+    pageSize: size,
+  };
+}
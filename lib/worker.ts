@@ -0,0 +1,532 @@
+/**
+ * Helpers for the structured worker model: derived values, flags, and a
+ * runtime check for worker data that arrives from outside the type system.
+ */
+
+import { isValidWorkerKey } from "@/lib/document-slots";
+import { defaultLifecycle, hasStatus } from "@/lib/status-lifecycle";
+import {
+  Salary,
+  SalaryPeriod,
+  Status,
+  Worker,
+  WorkerLink,
+  WorkerRecord,
+} from "@/types";
+
+export const SALARY_PERIODS: SalaryPeriod[] = [
+  "hour",
+  "day",
+  "week",
+  "month",
+  "year",
+];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Parse an ISO calendar date as UTC midnight; null if it is not a real date. */
+export function parseIsoDate(value: string): Date | null {
+  const match = ISO_DATE.exec(value);
+
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/** Whole years between the date of birth and `today`, or null if unparsable. */
+export function ageOn(dateOfBirth: string, today = new Date()): number | null {
+  const birth = parseIsoDate(dateOfBirth);
+
+  if (!birth) return null;
+
+  const hadBirthday =
+    today.getUTCMonth() > birth.getUTCMonth() ||
+    (today.getUTCMonth() === birth.getUTCMonth() &&
+      today.getUTCDate() >= birth.getUTCDate());
+
+  return (
+    today.getUTCFullYear() - birth.getUTCFullYear() - (hadBirthday ? 0 : 1)
+  );
+}
+
+/** Roles are free text; compare them ignoring case and surrounding spaces. */
+export const isSameRole = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Workers who could take over from `worker`: same role and destination, and
+ * not already part of a replacement.
+ */
+export const replacementCandidates = (worker: Worker, pool: Worker[]) =>
+  pool.filter(
+    (candidate) =>
+      candidate.id !== worker.id &&
+      isSameRole(candidate.role, worker.role) &&
+      candidate.destinationCountry.toUpperCase() ===
+        worker.destinationCountry.toUpperCase() &&
+      !candidate.replaces &&
+      !candidate.replacedBy,
+  );
+
+/** Link two workers: `replacement` takes over from `replaced`. */
+export function linkReplacement(
+  replaced: Worker,
+  replacement: Worker,
+  at = new Date().toISOString(),
+): [Worker, Worker] {
+  return [
+    {
+      ...replaced,
+      replacedBy: { id: replacement.id, name: replacement.name, at },
+    },
+    { ...replacement, replaces: { id: replaced.id, name: replaced.name, at } },
+  ];
+}
+
+/** The emoji flag of an ISO 3166-1 alpha-2 code, e.g. "PH" → 🇵🇭. */
+export const countryFlag = (code: string) =>
+  /^[A-Z]{2}$/i.test(code)
+    ? String.fromCodePoint(
+        ...code
+          .toUpperCase()
+          .split("")
+          .map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65),
+      )
+    : "";
+
+const regionNames = new Intl.DisplayNames(["en"], {
+  type: "region",
+  fallback: "none",
+});
+const currencyNames = new Intl.DisplayNames(["en"], {
+  type: "currency",
+  fallback: "none",
+});
+
+export const isCountryCode = (code: string) =>
+  /^[A-Z]{2}$/.test(code) && regionNames.of(code) !== undefined;
+
+export const isCurrencyCode = (code: string) =>
+  /^[A-Z]{3}$/.test(code) && currencyNames.of(code) !== undefined;
+
+/** ICAO 9303 machine-readable passports allow up to nine letters and digits. */
+const PASSPORT_NUMBER = /^[A-Z0-9]{6,9}$/;
+/** Visa numbers differ by issuer; accept letters, digits and dashes. */
+const VISA_NUMBER = /^[A-Z0-9][A-Z0-9-]{3,19}$/;
+
+export type WorkerIssue = {
+  /** The offending field, e.g. "salary.currency". */
+  path: string;
+  message: string;
+};
+
+export type WorkerParseResult =
+  | { ok: true; worker: Worker }
+  | { ok: false; issues: WorkerIssue[] };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check worker data from an API or file before it reaches the card. Codes and
+ * document numbers are upper-cased; every problem is reported, not just the
+ * first.
+ */
+export function parseWorker(
+  input: unknown,
+  today = new Date(),
+): WorkerParseResult {
+  if (!isRecord(input)) {
+    return {
+      ok: false,
+      issues: [{ path: "", message: "Expected a worker object." }],
+    };
+  }
+
+  const issues: WorkerIssue[] = [];
+  const text = (path: string, value: unknown, optional = false) => {
+    if (optional && (value === undefined || value === null || value === "")) {
+      return undefined;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      issues.push({ path, message: "Must be a non-empty string." });
+
+      return undefined;
+    }
+
+    return value.trim();
+  };
+  const code = (
+    path: string,
+    value: unknown,
+    isValid: (code: string) => boolean,
+    label: string,
+  ) => {
+    const raw = text(path, value);
+    const normalized = raw?.toUpperCase();
+
+    if (normalized !== undefined && !isValid(normalized)) {
+      issues.push({ path, message: `"${raw}" is not ${label}.` });
+    }
+
+    return normalized ?? "";
+  };
+  const documentNumber = (path: string, value: unknown, pattern: RegExp) => {
+    const normalized = text(path, value, true)?.toUpperCase();
+
+    if (normalized !== undefined && !pattern.test(normalized)) {
+      issues.push({ path, message: `"${value}" is not a valid number.` });
+    }
+
+    return normalized;
+  };
+
+  const id = text("id", input.id);
+  const name = text("name", input.name);
+  const role = text("role", input.role);
+  const photo = text("photo", input.photo);
+
+  const dateOfBirth = text("dateOfBirth", input.dateOfBirth);
+  const birth = dateOfBirth ? parseIsoDate(dateOfBirth) : null;
+
+  if (dateOfBirth !== undefined && !birth) {
+    issues.push({
+      path: "dateOfBirth",
+      message: `"${dateOfBirth}" is not a YYYY-MM-DD date.`,
+    });
+  } else if (birth && birth.getTime() > today.getTime()) {
+    issues.push({
+      path: "dateOfBirth",
+      message: "Must not be in the future.",
+    });
+  }
+
+  const nationality = code(
+    "nationality",
+    input.nationality,
+    isCountryCode,
+    "an ISO 3166-1 country code",
+  );
+  const currentCountry = code(
+    "currentCountry",
+    input.currentCountry,
+    isCountryCode,
+    "an ISO 3166-1 country code",
+  );
+  const destinationCountry = code(
+    "destinationCountry",
+    input.destinationCountry,
+    isCountryCode,
+    "an ISO 3166-1 country code",
+  );
+  const employerId = text("employerId", input.employerId, true);
+
+  const link = (path: string, value: unknown): WorkerLink | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!isRecord(value)) {
+      issues.push({ path, message: "Expected a worker link object." });
+
+      return undefined;
+    }
+
+    const linkId = text(`${path}.id`, value.id);
+    const linkName = text(`${path}.name`, value.name);
+    const at = text(`${path}.at`, value.at);
+
+    if (at !== undefined && Number.isNaN(Date.parse(at))) {
+      issues.push({ path: `${path}.at`, message: `"${at}" is not a date.` });
+    }
+
+    return { id: linkId ?? "", name: linkName ?? "", at: at ?? "" };
+  };
+  const replaces = link("replaces", input.replaces);
+  const replacedBy = link("replacedBy", input.replacedBy);
+
+  let salary: Salary = { amount: 0, currency: "", period: "month" };
+
+  if (!isRecord(input.salary)) {
+    issues.push({ path: "salary", message: "Expected a salary object." });
+  } else {
+    const { amount, currency, period } = input.salary;
+
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+      issues.push({
+        path: "salary.amount",
+        message: "Must be a non-negative number.",
+      });
+    }
+    if (!SALARY_PERIODS.includes(period as SalaryPeriod)) {
+      issues.push({
+        path: "salary.period",
+        message: `Must be one of ${SALARY_PERIODS.join(", ")}.`,
+      });
+    }
+
+    salary = {
+      amount: amount as number,
+      currency: code(
+        "salary.currency",
+        currency,
+        isCurrencyCode,
+        "an ISO 4217 currency code",
+      ),
+      period: period as SalaryPeriod,
+    };
+  }
+
+  const passportNumber = documentNumber(
+    "passportNumber",
+    input.passportNumber,
+    PASSPORT_NUMBER,
+  );
+  const visaNumber = documentNumber(
+    "visaNumber",
+    input.visaNumber,
+    VISA_NUMBER,
+  );
+
+  if (issues.length) return { ok: false, issues };
+
+  return {
+    ok: true,
+    worker: {
+      id: id!,
+      name: name!,
+      role: role!,
+      photo: photo!,
+      dateOfBirth: dateOfBirth!,
+      nationality,
+      currentCountry,
+      destinationCountry,
+      ...(employerId && { employerId }),
+      salary,
+      ...(passportNumber && { passportNumber }),
+      ...(visaNumber && { visaNumber }),
+      ...(replaces && { replaces }),
+      ...(replacedBy && { replacedBy }),
+    },
+  };
+}
+
+const isStatus = (value: unknown): value is Status =>
+  hasStatus(defaultLifecycle, value);
+
+const isStringList = (value: unknown) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/** Fields that fail their check, or are missing while `required`. */
+const fieldIssues = (
+  path: string,
+  value: Record<string, unknown>,
+  fields: Record<
+    string,
+    [check: (field: unknown) => boolean, expected: string]
+  >,
+  required: string[],
+) =>
+  Object.keys(fields)
+    .filter((key) =>
+      value[key] === undefined
+        ? required.includes(key)
+        : !fields[key][0](value[key]),
+    )
+    .map((key) => ({
+      path: `${path}.${key}`,
+      message: `Must be ${fields[key][1]}.`,
+    }));
+
+const isString = (value: unknown) => typeof value === "string";
+
+const isDate = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+/** Links open from the card, so only site paths and http(s) URLs pass. */
+const isSafeUrl = (value: unknown) =>
+  typeof value === "string" && /^(\/(?![/\\])|https?:\/\/)/i.test(value);
+
+function fileIssues(path: string, file: unknown): WorkerIssue[] {
+  if (!isRecord(file)) return [{ path, message: "Expected a file or null." }];
+
+  return fieldIssues(
+    path,
+    file,
+    {
+      name: [isString, "a string"],
+      size: [
+        (size) =>
+          typeof size === "number" && Number.isFinite(size) && size >= 0,
+        "a size in bytes",
+      ],
+      type: [isString, "a MIME type"],
+      id: [isString, "a string"],
+      uploadedAt: [isDate, "an ISO date"],
+      url: [isSafeUrl, "a site path or http(s) URL"],
+      uploadedBy: [isString, "a string"],
+      statusAtUpload: [isStatus, "a status"],
+      sha256: [
+        (hash) => typeof hash === "string" && /^[0-9a-f]{64}$/.test(hash),
+        "a hex SHA-256",
+      ],
+    },
+    ["name", "size", "type"],
+  );
+}
+
+function slotIssues(path: string, slot: unknown): WorkerIssue[] {
+  if (!isRecord(slot)) return [{ path, message: "Expected a slot object." }];
+
+  return fieldIssues(
+    path,
+    slot,
+    {
+      // Slot ids become part of storage directory names.
+      id: [
+        (id) => typeof id === "string" && isValidWorkerKey(id),
+        "a slot id without slashes or a leading dot",
+      ],
+      label: [
+        (label) => typeof label === "string" && label.trim() !== "",
+        "a non-empty string",
+      ],
+      required: [(required) => typeof required === "boolean", "true or false"],
+      allowedFileTypes: [isStringList, "a list of MIME types"],
+      maxFileSizeMB: [
+        (size) => typeof size === "number" && size > 0,
+        "a positive number",
+      ],
+      keywords: [isStringList, "a list of strings"],
+    },
+    ["id", "label"],
+  );
+}
+
+function statusChangeIssues(path: string, change: unknown): WorkerIssue[] {
+  if (!isRecord(change)) {
+    return [{ path, message: "Expected a status change object." }];
+  }
+
+  return fieldIssues(
+    path,
+    change,
+    {
+      status: [isStatus, "a status"],
+      at: [isDate, "an ISO date"],
+      by: [isString, "a string"],
+      note: [
+        (note) => note === null || typeof note === "string",
+        "a string or null",
+      ],
+      confirmedTests: [isStringList, "a list of test ids"],
+    },
+    ["status", "at"],
+  );
+}
+
+export type WorkerRecordParseResult =
+  | { ok: true; record: WorkerRecord }
+  | { ok: false; issues: WorkerIssue[] };
+
+/**
+ * Check a worker record from an API body: the worker as in `parseWorker`, a
+ * built-in status, and the optional case fields.
+ */
+export function parseWorkerRecord(
+  input: unknown,
+  today = new Date(),
+): WorkerRecordParseResult {
+  if (!isRecord(input)) {
+    return {
+      ok: false,
+      issues: [{ path: "", message: "Expected a worker record object." }],
+    };
+  }
+
+  const parsed = parseWorker(input.worker, today);
+  const issues = parsed.ok
+    ? []
+    : parsed.issues.map((issue) => ({
+        ...issue,
+        path: issue.path ? `worker.${issue.path}` : "worker",
+      }));
+  const { status, rejectionNote, files, documentSlots, statusHistory } = input;
+
+  if (!isStatus(status)) {
+    issues.push({
+      path: "status",
+      message: `Must be one of ${Object.keys(defaultLifecycle).join(", ")}.`,
+    });
+  }
+  if (
+    rejectionNote !== undefined &&
+    rejectionNote !== null &&
+    typeof rejectionNote !== "string"
+  ) {
+    issues.push({
+      path: "rejectionNote",
+      message: "Must be a string or null.",
+    });
+  }
+  if (files !== undefined) {
+    if (isRecord(files)) {
+      Object.keys(files).forEach((slotId) => {
+        if (!isValidWorkerKey(slotId)) {
+          issues.push({
+            path: "files",
+            message: `"${slotId}" is not a slot id.`,
+          });
+        }
+        if (files[slotId] !== null) {
+          issues.push(...fileIssues(`files.${slotId}`, files[slotId]));
+        }
+      });
+    } else {
+      issues.push({
+        path: "files",
+        message: "Expected files keyed by slot id.",
+      });
+    }
+  }
+  if (documentSlots !== undefined) {
+    if (Array.isArray(documentSlots)) {
+      documentSlots.forEach((slot, index) =>
+        issues.push(...slotIssues(`documentSlots.${index}`, slot)),
+      );
+    } else {
+      issues.push({ path: "documentSlots", message: "Expected an array." });
+    }
+  }
+  if (statusHistory !== undefined) {
+    if (Array.isArray(statusHistory)) {
+      statusHistory.forEach((change, index) =>
+        issues.push(...statusChangeIssues(`statusHistory.${index}`, change)),
+      );
+    } else {
+      issues.push({ path: "statusHistory", message: "Expected an array." });
+    }
+  }
+
+  if (!parsed.ok || issues.length) return { ok: false, issues };
+
+  return {
+    ok: true,
+    record: {
+      worker: parsed.worker,
+      status: status as Status,
+      ...(rejectionNote !== undefined && {
+        rejectionNote: rejectionNote as string | null,
+      }),
+      ...(files !== undefined && { files: files as WorkerRecord["files"] }),
+      ...(documentSlots !== undefined && {
+        documentSlots: documentSlots as WorkerRecord["documentSlots"],
+      }),
+      ...(statusHistory !== undefined && {
+        statusHistory: statusHistory as WorkerRecord["statusHistory"],
+      }),
+    },
+  };
+}
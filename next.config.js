@@ -1,4 +1,7 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // pdfkit reads its font metrics from its own folder at runtime.
+  serverExternalPackages: ["pdfkit"],
+};
 
 module.exports = nextConfig;
@@ -16,7 +16,31 @@ const config = {
     },
   },
   darkMode: "class",
-  plugins: [heroui()],
+  plugins: [
+    heroui({
+      themes: {
+        // Brand colors of the medical card; override them here.
+        light: {
+          colors: {
+            brand: {
+              DEFAULT: "#3592E6",
+              foreground: "#FFFFFF",
+              heading: "#1E3A8A",
+            },
+          },
+        },
+        dark: {
+          colors: {
+            brand: {
+              DEFAULT: "#3592E6",
+              foreground: "#FFFFFF",
+              heading: "#93C5FD",
+            },
+          },
+        },
+      },
+    }),
+  ],
 }
 
 module.exports = config;
\ No newline at end of file
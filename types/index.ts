@@ -3,3 +3,153 @@ import { SVGProps } from "react";
 export type IconSvgProps = SVGProps<SVGSVGElement> & {
   size?: number;
 };
+
+export type FileData = {
+  /** Server-assigned id, present once the file has been persisted. */
+  id?: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt?: string;
+  /** Download URL for the stored file. */
+  url?: string;
+  uploadedBy?: string;
+  /** Worker status at the moment this version was uploaded. */
+  statusAtUpload?: Status;
+  /** Hex SHA-256 of the content, used to spot duplicate uploads. */
+  sha256?: string;
+};
+
+export type Worker = {
+  /** Stable id; storage and uploads are keyed by it, never by the name. */
+  id: string;
+  name: string;
+  role: string;
+  photo: string;
+  /** ISO 8601 calendar date, e.g. "1993-04-17"; the age is derived from it. */
+  dateOfBirth: string;
+  /** ISO 3166-1 alpha-2 code, e.g. "PH". */
+  nationality: string;
+  /** ISO 3166-1 alpha-2 code of the country the worker is in now. */
+  currentCountry: string;
+  /** ISO 3166-1 alpha-2 code of the country the job is in. */
+  destinationCountry: string;
+  /** Employer-specific medical requirements take precedence when set. */
+  employerId?: string;
+  /** The offered pay. */
+  salary: Salary;
+  passportNumber?: string;
+  visaNumber?: string;
+  /** The worker this one was brought in to replace. */
+  replaces?: WorkerLink;
+  /** The worker who took over from this one. */
+  replacedBy?: WorkerLink;
+};
+
+/** A reference to another worker, recorded when one replaces the other. */
+export type WorkerLink = {
+  id: string;
+  name: string;
+  /** ISO timestamp of the replacement. */
+  at: string;
+};
+
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year";
+
+export type Salary = {
+  amount: number;
+  /** ISO 4217 code, e.g. "SAR". */
+  currency: string;
+  period: SalaryPeriod;
+};
+
+/** A document telling the worker what the medical must cover. */
+export type RequirementDocument = {
+  title: string;
+  downloadUrl: string;
+  /** Days a result stays valid after upload; the shortest one applies. */
+  validityDays?: number;
+  /** The tests the document asks for, ticked off by the reviewer. */
+  tests?: RequirementTest[];
+};
+
+/** One test a medical result must show, e.g. HIV with a non-reactive result. */
+export type RequirementTest = {
+  /** Stable across documents; a test listed twice is checked once. */
+  id: string;
+  label: string;
+  /** What the result has to say, e.g. "Non-reactive". */
+  acceptableResult: string;
+  /** Mandatory tests must be confirmed before the result can be accepted. Defaults to true. */
+  mandatory?: boolean;
+};
+
+/** A worker and the state of their medical case, as listed on the dashboard. */
+export type WorkerRecord = {
+  worker: Worker;
+  status: Status;
+  /** Latest known file per slot; their `uploadedAt` orders the dashboard. */
+  files?: SlotFiles;
+  rejectionNote?: string | null;
+  documentSlots?: DocumentSlot[];
+  /** Every status the record moved to, oldest first. */
+  statusHistory?: StatusChange[];
+};
+
+/** One entry of a worker's status timeline. */
+export type StatusChange = {
+  status: Status;
+  at: string;
+  /** Who made the change, e.g. the reviewer. */
+  by?: string;
+  /** The reviewer's note, e.g. why a replacement was requested. */
+  note?: string | null;
+  /** Requirement tests confirmed with an acceptance. */
+  confirmedTests?: string[];
+};
+
+/** The current file of each document slot, keyed by slot id. */
+export type SlotFiles = Record<string, FileData | null>;
+
+/** All uploaded versions of a worker's result, newest first. */
+export type ResultHistory = {
+  currentId: string | null;
+  versions: FileData[];
+};
+
+export type BuiltInStatus =
+  | "awaiting_upload"
+  | "pending"
+  | "under_review"
+  | "accepted"
+  | "file_rejected"
+  | "replace"
+  | "expired"
+  | "withdrawn";
+
+/** A lifecycle state; hosts may register extra states beyond the built-in ones. */
+export type Status = BuiltInStatus | (string & {});
+
+/** A reviewer's verdict on a worker's medical result, emitted for the host to persist. */
+export type ReviewDecision = {
+  status: Extract<Status, "accepted" | "replace">;
+  /** Required when requesting a replacement, null on acceptance. */
+  note: string | null;
+  reviewer: string;
+  decidedAt: string;
+  /** Ids of the requirement tests the reviewer confirmed against the result. */
+  confirmedTests: string[];
+};
+
+/** One document the worker must (or may) provide, e.g. a blood test or X-ray. */
+export type DocumentSlot = {
+  id: string;
+  label: string;
+  /** MIME types; defaults to the card's `allowedFileTypes`. */
+  allowedFileTypes?: string[];
+  /** Defaults to the card's `maxFileSizeMB`. */
+  maxFileSizeMB?: number;
+  required?: boolean;
+  /** Words in a file name that route a dropped file to this slot. */
+  keywords?: string[];
+};